@@ -0,0 +1,157 @@
+// Checks the message catalogs in src/locales against the English one and
+// against the t('...') keys used in src, and flags UI text written straight
+// into components or modules instead of going through t(). Exits with 1 on
+// any problem.
+// A line that really should stay untranslated can be marked `// i18n-ignore`.
+//
+//   npm run i18n:check
+
+import { readFileSync, readdirSync, statSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import ts from 'typescript'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const localesDir = join(root, 'src', 'locales')
+const REFERENCE = 'en'
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/
+// Generated shadcn primitives carry no product copy of their own
+const UNCHECKED_DIRS = [join(root, 'src', 'components', 'ui')]
+// Tests hold fixture text that never reaches the screen
+const TEST_FILE = /\.test\.tsx?$/
+// Attributes and object properties that end up on screen or in a screen reader
+const TEXT_ATTRIBUTES = new Set(['title', 'placeholder', 'aria-label', 'alt', 'label'])
+const TEXT_PROPERTIES = new Set(['label', 'title', 'description', 'placeholder', 'message'])
+const WORD = /\p{L}{2,}/u
+const CATALOG_KEY = /^[\w-]+(\.[\w-]+)+$/
+
+function flatten(messages, prefix = '') {
+  return Object.entries(messages).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null ? flatten(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  )
+}
+
+function sourceFiles(dir) {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name)
+    if (statSync(path).isDirectory()) return sourceFiles(path)
+    return /\.(ts|tsx)$/.test(name) ? [path] : []
+  })
+}
+
+const catalogs = Object.fromEntries(
+  readdirSync(localesDir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => [name.replace(/\.json$/, ''), new Set(flatten(JSON.parse(readFileSync(join(localesDir, name), 'utf8'))))])
+)
+const reference = catalogs[REFERENCE]
+// Keys as used in code, without plural suffixes
+const referenceBase = new Set([...reference].map((key) => key.replace(PLURAL_SUFFIX, '')))
+const problems = []
+
+Object.entries(catalogs).forEach(([locale, keys]) => {
+  if (locale === REFERENCE) return
+  reference.forEach((key) => {
+    if (!keys.has(key)) problems.push(`${locale}.json is missing "${key}"`)
+  })
+  keys.forEach((key) => {
+    if (!reference.has(key)) problems.push(`${locale}.json has "${key}", which is not in ${REFERENCE}.json`)
+  })
+})
+
+// Only literal keys can be checked; template keys such as `status.${status}`
+// are skipped
+sourceFiles(join(root, 'src')).forEach((file) => {
+  const source = readFileSync(file, 'utf8')
+  for (const match of source.matchAll(/\bt\(\s*['"]([\w.-]+)['"]/g)) {
+    if (!referenceBase.has(match[1])) {
+      problems.push(`${relative(root, file)} uses "${match[1]}", which is not in ${REFERENCE}.json`)
+    }
+  }
+})
+
+// Static text of a string or template literal, or null for anything else
+function literalText(node) {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text
+  if (ts.isTemplateExpression(node)) {
+    return [node.head.text, ...node.templateSpans.map((span) => span.literal.text)].join(' ')
+  }
+  return null
+}
+
+// Literals a JSX expression can render directly, through `a ? 'x' : 'y'`,
+// `a && 'x'` or `a ?? 'x'`
+function renderedLiterals(node) {
+  if (ts.isParenthesizedExpression(node)) return renderedLiterals(node.expression)
+  if (ts.isConditionalExpression(node)) return [...renderedLiterals(node.whenTrue), ...renderedLiterals(node.whenFalse)]
+  if (ts.isBinaryExpression(node)) {
+    const kind = node.operatorToken.kind
+    if (kind === ts.SyntaxKind.AmpersandAmpersandToken) return renderedLiterals(node.right)
+    if (kind === ts.SyntaxKind.BarBarToken || kind === ts.SyntaxKind.QuestionQuestionToken) {
+      return [...renderedLiterals(node.left), ...renderedLiterals(node.right)]
+    }
+  }
+  return literalText(node) === null ? [] : [node]
+}
+
+function isUserText(text) {
+  return WORD.test(text) && !CATALOG_KEY.test(text.trim())
+}
+
+function hardcodedText(file) {
+  const source = readFileSync(file, 'utf8')
+  const sourceFile = ts.createSourceFile(
+    file,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  )
+  const lines = source.split('\n')
+  const found = []
+
+  const report = (node, text) => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+    if (/i18n-ignore/.test(lines[line]) || /i18n-ignore/.test(lines[line - 1] ?? '')) return
+    found.push(`${relative(root, file)}:${line + 1} has untranslated text "${text.trim().replace(/\s+/g, ' ')}"`)
+  }
+  const checkLiteral = (node) => {
+    const text = literalText(node)
+    if (text !== null && isUserText(text)) report(node, text)
+  }
+
+  const visit = (node) => {
+    if (ts.isJsxText(node) && isUserText(node.text)) {
+      report(node, node.text)
+    } else if (ts.isJsxAttribute(node) && node.initializer && TEXT_ATTRIBUTES.has(node.name.getText(sourceFile))) {
+      const value = ts.isJsxExpression(node.initializer) ? node.initializer.expression : node.initializer
+      if (value) renderedLiterals(value).forEach(checkLiteral)
+    } else if (ts.isJsxExpression(node) && node.expression && (ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent))) {
+      renderedLiterals(node.expression).forEach(checkLiteral)
+    } else if (ts.isPropertyAssignment(node) && TEXT_PROPERTIES.has(node.name.getText(sourceFile))) {
+      checkLiteral(node.initializer)
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      /_LABELS$/.test(node.name.getText(sourceFile)) &&
+      node.initializer &&
+      ts.isObjectLiteralExpression(node.initializer)
+    ) {
+      node.initializer.properties.forEach((property) => {
+        if (ts.isPropertyAssignment(property)) checkLiteral(property.initializer)
+      })
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return found
+}
+
+sourceFiles(join(root, 'src'))
+  .filter((file) => !TEST_FILE.test(file) && !UNCHECKED_DIRS.some((dir) => file.startsWith(dir)))
+  .forEach((file) => problems.push(...hardcodedText(file)))
+
+if (problems.length > 0) {
+  problems.forEach((problem) => console.error(problem))
+  process.exit(1)
+}
+console.log(`Checked ${Object.keys(catalogs).length} catalogs, ${reference.size} keys each`)
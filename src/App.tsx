@@ -1,17 +1,20 @@
 import { Toaster } from '@/components/ui/toaster'
 import { Toaster as Sonner } from '@/components/ui/sonner'
 import { TooltipProvider } from '@/components/ui/tooltip'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { BrowserRouter, Routes, Route } from 'react-router-dom'
+import { QueryClientProvider } from '@tanstack/react-query'
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 
 import NotFound from './pages/NotFound'
 import RadId from './pages/RadId'
 import IndexWrapper from './pages/IndexWrapper'
 import DoctorCases from './pages/DoctorCases'
-import SupervisorLogin from './pages/SupervisorLogin'
 import SupervisorDashboard from './pages/SupervisorDashboard'
-
-const queryClient = new QueryClient()
+import Forbidden from './pages/Forbidden'
+import { RequireAuth } from './components/RequireAuth'
+import { RequireRole } from './components/RequireRole'
+import { RequireAssignedCase } from './components/RequireAssignedCase'
+import { EVALUATOR_ROLES, SUPERVISOR_ROLES } from './lib/auth'
+import { queryClient } from './lib/query-client'
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -21,12 +24,31 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<RadId />} />
-          <Route path="/doctor/:doctorId" element={<DoctorCases />} />
-          <Route path="/rad/:radId" element={<IndexWrapper />} />
-          
-          {/* Supervisor routes */}
-          <Route path="/supervisor" element={<SupervisorLogin />} />
-          <Route path="/supervisor/dashboard/:supervisorId" element={<SupervisorDashboard />} />
+
+          {/* Routes below need a signed-in user */}
+          <Route element={<RequireAuth />}>
+            {/* Where users whose role isn't known end up, see homePath */}
+            <Route path="/forbidden" element={<Forbidden />} />
+
+            {/* Doctor routes */}
+            <Route element={<RequireRole roles={EVALUATOR_ROLES} />}>
+              <Route path="/cases" element={<DoctorCases />} />
+              <Route
+                path="/rad/:radId"
+                element={
+                  <RequireAssignedCase>
+                    <IndexWrapper />
+                  </RequireAssignedCase>
+                }
+              />
+            </Route>
+            
+            {/* Supervisor routes */}
+            <Route element={<RequireRole roles={SUPERVISOR_ROLES} />}>
+              <Route path="/supervisor" element={<Navigate to="/supervisor/dashboard" replace />} />
+              <Route path="/supervisor/dashboard" element={<SupervisorDashboard />} />
+            </Route>
+          </Route>
           
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
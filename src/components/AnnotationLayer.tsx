@@ -0,0 +1,155 @@
+import React from 'react'
+import { Annotation, AnnotationPoint } from '@/types'
+
+interface AnnotationLayerProps {
+  width: number
+  height: number
+  // Current CSS pixels per image pixel, used to keep strokes and text a constant size
+  scale: number
+  annotations: Annotation[]
+  draft?: Annotation | null
+  selectedId?: string | null
+  // Row and column spacing in mm; lengths are shown in pixels without it
+  pixelSpacing?: [number, number]
+  caption?: (annotation: Annotation) => string
+}
+
+const COLOR = '#facc15'
+const SELECTED_COLOR = '#3b82f6'
+
+function measureLength(
+  from: AnnotationPoint,
+  to: AnnotationPoint,
+  pixelSpacing?: [number, number]
+): string {
+  if (pixelSpacing) {
+    const [rowSpacing, columnSpacing] = pixelSpacing
+    const mm = Math.hypot((to.x - from.x) * columnSpacing, (to.y - from.y) * rowSpacing)
+    return mm >= 10 ? `${(mm / 10).toFixed(1)} cm` : `${mm.toFixed(1)} mm`
+  }
+  return `${Math.round(Math.hypot(to.x - from.x, to.y - from.y))} px`
+}
+
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  width,
+  height,
+  scale,
+  annotations,
+  draft,
+  selectedId,
+  pixelSpacing,
+  caption,
+}) => {
+  const stroke = 2 / scale
+  const fontSize = 14 / scale
+
+  const renderText = (point: AnnotationPoint, text: string, color: string, size = fontSize) => (
+    <text
+      x={point.x}
+      y={point.y}
+      fill={color}
+      fontSize={size}
+      stroke="black"
+      strokeWidth={stroke * 1.5}
+      paintOrder="stroke"
+      style={{ userSelect: 'none' }}
+    >
+      {text}
+    </text>
+  )
+
+  const renderShape = (annotation: Annotation) => {
+    const color = annotation.id === selectedId ? SELECTED_COLOR : COLOR
+    const [start, end = start] = annotation.points
+    if (!start) return null
+
+    switch (annotation.type) {
+      case 'box':
+        return (
+          <rect
+            x={Math.min(start.x, end.x)}
+            y={Math.min(start.y, end.y)}
+            width={Math.abs(end.x - start.x)}
+            height={Math.abs(end.y - start.y)}
+            fill="none"
+            stroke={color}
+            strokeWidth={stroke}
+          />
+        )
+      case 'polygon':
+        return (
+          <polygon
+            points={annotation.points.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill={`${color}22`}
+            stroke={color}
+            strokeWidth={stroke}
+            strokeLinejoin="round"
+          />
+        )
+      case 'arrow': {
+        const angle = Math.atan2(end.y - start.y, end.x - start.x)
+        const head = 12 / scale
+        const left = {
+          x: end.x - head * Math.cos(angle - Math.PI / 6),
+          y: end.y - head * Math.sin(angle - Math.PI / 6),
+        }
+        const right = {
+          x: end.x - head * Math.cos(angle + Math.PI / 6),
+          y: end.y - head * Math.sin(angle + Math.PI / 6),
+        }
+        return (
+          <g stroke={color} strokeWidth={stroke}>
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} />
+            <polygon
+              points={`${end.x},${end.y} ${left.x},${left.y} ${right.x},${right.y}`}
+              fill={color}
+            />
+          </g>
+        )
+      }
+      case 'ruler': {
+        // End ticks perpendicular to the measured line
+        const angle = Math.atan2(end.y - start.y, end.x - start.x) + Math.PI / 2
+        const tick = 6 / scale
+        const dx = tick * Math.cos(angle)
+        const dy = tick * Math.sin(angle)
+        return (
+          <g stroke={color} strokeWidth={stroke}>
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} strokeDasharray={`${4 / scale} ${3 / scale}`} />
+            <line x1={start.x - dx} y1={start.y - dy} x2={start.x + dx} y2={start.y + dy} />
+            <line x1={end.x - dx} y1={end.y - dy} x2={end.x + dx} y2={end.y + dy} />
+            {renderText(
+              { x: (start.x + end.x) / 2 + 2 * dx, y: (start.y + end.y) / 2 + 2 * dy },
+              measureLength(start, end, pixelSpacing),
+              color
+            )}
+          </g>
+        )
+      }
+      case 'text':
+        return renderText(start, annotation.text || 'Label', color, fontSize * 1.2)
+      default:
+        return null
+    }
+  }
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      {annotations.map((annotation) => {
+        const label = caption?.(annotation)
+        const anchor = annotation.points[0]
+        return (
+          <g key={annotation.id}>
+            {renderShape(annotation)}
+            {label && anchor && annotation.type !== 'text' &&
+              renderText({ x: anchor.x, y: anchor.y - 6 / scale }, label, COLOR, fontSize * 0.85)}
+          </g>
+        )
+      })}
+      {draft && <g opacity={0.8}>{renderShape(draft)}</g>}
+    </svg>
+  )
+}
@@ -0,0 +1,185 @@
+import React from 'react'
+import {
+  Square,
+  Pencil,
+  ArrowUpRight,
+  Ruler,
+  Type,
+  Layers,
+  Trash2,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ViewerTool } from '@/components/XrayViewport'
+import useAnnotationStore from '@/stores/annotations'
+import useTranslation from '@/hooks/use-translation'
+import { Annotation, AnnotationType } from '@/types'
+
+export interface AnnotationTargets {
+  responses: { id: string; label: string }[]
+  metrics: { id: string; name: string }[]
+}
+
+interface AnnotationToolbarProps {
+  caseId: string
+  tool: ViewerTool
+  onToolChange: (tool: ViewerTool) => void
+  targets: AnnotationTargets
+  responseId: string | null
+  metricId: string | null
+  onTargetChange: (target: { responseId: string | null; metricId: string | null }) => void
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  listOpen: boolean
+  onListOpenChange: (open: boolean) => void
+}
+
+// Tool names are under annotations.tools.<type>, list entries use annotationTypes.<type>
+const TOOLS: { type: AnnotationType; icon: React.ElementType }[] = [
+  { type: 'box', icon: Square },
+  { type: 'polygon', icon: Pencil },
+  { type: 'arrow', icon: ArrowUpRight },
+  { type: 'ruler', icon: Ruler },
+  { type: 'text', icon: Type },
+]
+
+const selectClassName = 'h-7 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-xs text-foreground'
+
+export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  caseId,
+  tool,
+  onToolChange,
+  targets,
+  responseId,
+  metricId,
+  onTargetChange,
+  selectedId,
+  onSelect,
+  listOpen,
+  onListOpenChange,
+}) => {
+  const annotations = useAnnotationStore((state) => state.items[caseId]) || []
+  const status = useAnnotationStore((state) => state.status[caseId]) || 'idle'
+  const updateAnnotation = useAnnotationStore((state) => state.updateItem)
+  const removeAnnotation = useAnnotationStore((state) => state.removeItem)
+  const { t } = useTranslation()
+
+  const renderTargetSelects = (
+    value: { responseId: string | null; metricId: string | null },
+    onChange: (target: { responseId: string | null; metricId: string | null }) => void
+  ) => (
+    <>
+      <select
+        value={value.responseId ?? ''}
+        onChange={(e) => onChange({ ...value, responseId: e.target.value || null })}
+        className={selectClassName}
+        aria-label={t('annotations.attachToResponse')}
+      >
+        <option value="">{t('annotations.noModel')}</option>
+        {targets.responses.map((response) => (
+          <option key={response.id} value={response.id}>{response.label}</option>
+        ))}
+      </select>
+      <select
+        value={value.metricId ?? ''}
+        onChange={(e) => onChange({ ...value, metricId: e.target.value || null })}
+        className={selectClassName}
+        aria-label={t('annotations.attachToMetric')}
+      >
+        <option value="">{t('annotations.noMetric')}</option>
+        {targets.metrics.map((metric) => (
+          <option key={metric.id} value={metric.id}>{metric.name}</option>
+        ))}
+      </select>
+    </>
+  )
+
+  const renderListItem = (annotation: Annotation) => (
+    <li
+      key={annotation.id}
+      className={cn(
+        'p-2 rounded border space-y-1',
+        annotation.id === selectedId ? 'border-medical-blue' : 'border-medical-dark-gray/30'
+      )}
+      onMouseEnter={() => onSelect(annotation.id)}
+      onMouseLeave={() => onSelect(null)}
+    >
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">
+          {t(`annotationTypes.${annotation.type}`)}
+          <span className="ml-1 text-medical-gray">
+            {t('annotations.imageNumber', { number: annotation.imageIndex + 1 })}
+          </span>
+        </span>
+        <button
+          onClick={() => removeAnnotation(caseId, annotation.id)}
+          className="p-1 rounded-md nav-button"
+          aria-label={t('annotations.delete')}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+      {annotation.type === 'text' && (
+        <input
+          autoFocus={!annotation.text}
+          value={annotation.text || ''}
+          placeholder={t('annotations.labelPlaceholder')}
+          onChange={(e) => updateAnnotation(caseId, annotation.id, { text: e.target.value })}
+          className="w-full h-7 px-2 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-xs"
+        />
+      )}
+      <div className="flex gap-1">
+        {renderTargetSelects(annotation, (target) => updateAnnotation(caseId, annotation.id, target))}
+      </div>
+    </li>
+  )
+
+  return (
+    <div className="flex items-center gap-1 px-3 py-1.5 border-b border-medical-dark-gray/30">
+      {TOOLS.map(({ type, icon: Icon }) => (
+        <button
+          key={type}
+          onClick={() => onToolChange(tool === type ? 'pan' : type)}
+          className={cn('p-1.5 rounded-md nav-button', tool === type && 'bg-medical-blue/30')}
+          aria-label={t(`annotations.tools.${type}`)}
+          aria-pressed={tool === type}
+          title={t(`annotations.tools.${type}`)}
+        >
+          <Icon size={16} />
+        </button>
+      ))}
+
+      <div className="flex gap-1 ml-2">
+        {renderTargetSelects({ responseId, metricId }, onTargetChange)}
+      </div>
+
+      <span
+        className={cn(
+          'ml-auto text-xs',
+          status === 'error' ? 'text-red-500' : 'text-medical-gray'
+        )}
+      >
+        {status !== 'idle' && t(`saveStatus.${status}`)}
+      </span>
+
+      <Popover open={listOpen} onOpenChange={onListOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            className="flex items-center gap-1 p-1.5 rounded-md nav-button text-xs"
+            aria-label={t('annotations.list')}
+          >
+            <Layers size={16} />
+            {annotations.length}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 max-h-96 overflow-y-auto">
+          {annotations.length === 0 ? (
+            <p className="text-sm text-medical-gray">{t('annotations.empty')}</p>
+          ) : (
+            <ul className="space-y-2">{annotations.map(renderListItem)}</ul>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Menu, X, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import useTranslation from '@/hooks/use-translation';
 
 interface Doctor {
   id: string;
@@ -19,6 +20,7 @@ export const DoctorSidebar: React.FC<DoctorSidebarProps> = ({
   currentDoctor,
   onSelectDoctor,
 }) => {
+  const { t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
 
   const toggleSidebar = () => {
@@ -31,7 +33,7 @@ export const DoctorSidebar: React.FC<DoctorSidebarProps> = ({
       <button
         className="fixed top-4 left-4 z-50 p-2 bg-medical-dark-gray rounded-md nav-button"
         onClick={toggleSidebar}
-        aria-label={isOpen ? "Close menu" : "Open menu"}
+        aria-label={isOpen ? t('doctors.closeMenu') : t('doctors.openMenu')}
       >
         {isOpen ? <X size={20} /> : <Menu size={20} />}
       </button>
@@ -54,7 +56,7 @@ export const DoctorSidebar: React.FC<DoctorSidebarProps> = ({
       >
         <div className="p-6">
           <h2 className="text-xl font-bold text-medical-blue mb-6 flex items-center">
-            <User size={18} className="mr-2" /> Select Doctor
+            <User size={18} className="mr-2" /> {t('doctors.select')}
           </h2>
           
           <ul className="space-y-2">
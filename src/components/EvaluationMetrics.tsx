@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
+import { Keyboard, Check, CloudOff, AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import {
   Select,
@@ -8,7 +9,16 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import useEvalutationStore from '@/stores/evaluation'
-import { Metric, Evaluation, APIEvaluation } from '@/types'
+import usePreferencesStore from '@/stores/preferences'
+import useOutboxStore from '@/stores/outbox'
+import useSessionStore from '@/stores/session'
+import { onScoreSynced, outboxKey, queueScoreUpdate, retryScoreUpdate } from '@/lib/outbox'
+import { updateResponseFeedback } from '@/services'
+import { DEMO_MODE } from '@/lib/demo'
+import { metricAppliesTo } from '@/lib/languages'
+import useTranslation from '@/hooks/use-translation'
+import { ResponseFeedbackPopover, FeedbackSaveStatus } from '@/components/ResponseFeedbackPopover'
+import { Metric, Evaluation, APIEvaluation, ErrorTag, ReportSectionName } from '@/types'
 
 // API Types
 interface SingleEvaluationRequest {
@@ -48,6 +58,10 @@ export interface ModelScore {
 interface ModelResponse {
   id: string;
   model_name: string;
+  // Blinded slot the response is shown in, recorded with its scores
+  slot?: number;
+  // Languages the response has text in; per-language columns for others are left out
+  languages?: string[];
   response: {
     responseId: string;
     response: string;
@@ -61,6 +75,11 @@ interface EvaluationMetricsProps {
   isSubmitting?: boolean
   onStatusChange?: (status: string) => void
   modelResponses: ModelResponse[]
+  // Called when Enter is pressed in keyboard scoring mode
+  onSubmit?: () => void
+  errorTags?: ErrorTag[]
+  // Called with the report section of the metric under the pointer
+  onSectionFocus?: (section: ReportSectionName | null) => void
 }
 
 interface EvaluationProgress {
@@ -82,20 +101,118 @@ const getScoreColor = (score: number | null): string => {
   return colors[score as keyof typeof colors] || '';
 };
 
+// Sends the comment and error tags currently in the store for one response
+const sendFeedback = (caseId: string, responseId: string, evaluatorId: string) => {
+  const model = useEvalutationStore.getState().evaluation[caseId]
+    ?.find(m => m.responseId === responseId);
+  return updateResponseFeedback({
+    caseId,
+    responseId,
+    evaluatorId,
+    comment: model?.comment || '',
+    errorTags: model?.errorTags || []
+  });
+};
+
+// Keys with the catalog key of their description
+const SHORTCUTS: [string, string][] = [
+  ['← → ↑ ↓', 'evaluationMetrics.shortcutMove'],
+  ['1 – 5', 'evaluationMetrics.shortcutScore'],
+  ['Backspace', 'evaluationMetrics.shortcutClear'],
+  ['Enter', 'evaluationMetrics.shortcutSubmit'],
+  ['?', 'evaluationMetrics.shortcutHelp'],
+];
+
 export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
   activeRecordId,
   metrics,
   isSubmitting = false,
   onStatusChange,
-  modelResponses
+  modelResponses,
+  onSubmit,
+  errorTags = [],
+  onSectionFocus
 }) => {
+  const { t } = useTranslation();
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<EvaluationProgress>({ completed: 0, total: 0, status: 'pending' });
   const evaluation = useEvalutationStore((state) => state.evaluation)
   const setEvaluation = useEvalutationStore((state) => state.setEvaluation)
 
+  const keyboardScoring = usePreferencesStore((state) => state.keyboardScoring)
+  const setKeyboardScoring = usePreferencesStore((state) => state.setKeyboardScoring)
+  const [focusedCell, setFocusedCell] = useState({ row: 0, col: 0 });
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const setFeedback = useEvalutationStore((state) => state.setFeedback)
+  const [feedbackStatus, setFeedbackStatus] = useState<{ [responseId: string]: FeedbackSaveStatus }>({});
+  const feedbackTimers = useRef<{ [responseId: string]: ReturnType<typeof setTimeout> }>({});
+  const syncCells = useOutboxStore((state) => state.cells)
+  const evaluatorId = useSessionStore((state) => state.user?.id ?? null);
+
   const activeEvaluation = activeRecordId ? evaluation[activeRecordId] : undefined
+  const scoredResponses = modelResponses.filter(
+    modelResponse => modelResponse.response && modelResponse.response.response
+  );
+  const isScored = (modelResponse: ModelResponse, metricId: string) =>
+    !modelResponse.languages || metricAppliesTo(metricId, modelResponse.languages);
+
+  // Put the keyboard focus on the grid as soon as the mode is switched on, and
+  // back on it once a submit is done, since the spinner replaced the grid
+  useEffect(() => {
+    if (!keyboardScoring) {
+      setShowShortcuts(false);
+    } else if (!isSubmitting) {
+      gridRef.current?.focus();
+    }
+  }, [keyboardScoring, isSubmitting]);
+
+  // Report the case status from the server once queued updates for this case go through
+  useEffect(() => {
+    return onScoreSynced((update, result) => {
+      if (update.caseId === activeRecordId && result.status) {
+        onStatusChange?.(result.status);
+      }
+    });
+  }, [activeRecordId, onStatusChange]);
+
+  const saveFeedback = async (responseId: string) => {
+    delete feedbackTimers.current[responseId];
+    // Demo feedback stays in the local draft only
+    if (!evaluatorId || DEMO_MODE) return;
+
+    setFeedbackStatus(prev => ({ ...prev, [responseId]: 'saving' }));
+    try {
+      await sendFeedback(activeRecordId, responseId, evaluatorId);
+      setFeedbackStatus(prev => ({ ...prev, [responseId]: 'saved' }));
+    } catch (error) {
+      // Still in the local draft and sent again on submit
+      setFeedbackStatus(prev => ({ ...prev, [responseId]: 'error' }));
+    }
+  };
+
+  // Comments are saved shortly after typing stops
+  const updateFeedback = (responseId: string, feedback: { comment?: string; errorTags?: string[] }) => {
+    setFeedback(activeRecordId, responseId, feedback);
+    clearTimeout(feedbackTimers.current[responseId]);
+    feedbackTimers.current[responseId] = setTimeout(() => saveFeedback(responseId), 1000);
+  };
+
+  // Send pending feedback straight away when leaving the case
+  useEffect(() => {
+    const timers = feedbackTimers.current;
+    return () => {
+      Object.keys(timers).forEach((responseId) => {
+        clearTimeout(timers[responseId]);
+        delete timers[responseId];
+        if (evaluatorId && !DEMO_MODE) {
+          sendFeedback(activeRecordId, responseId, evaluatorId).catch(() => {});
+        }
+      });
+    };
+  }, [activeRecordId, evaluatorId]);
 
   // Function to update individual evaluation
   const updateEvaluation = async (responseId: string, metricId: string, value: number | null) => {
@@ -112,47 +229,120 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
         value,
       });
 
-      // Get evaluatorId from URL params or context
-      const urlParams = new URLSearchParams(window.location.search);
-      const evaluatorId = urlParams.get('doctorId');
+      if (!evaluatorId) {
+        console.error('No evaluator ID found, score kept locally only');
+        return;
+      }
 
-      // Prepare request data according to API contract
-      const requestData = {
+      // Saved to the outbox first, then sent (and retried) in the background
+      await queueScoreUpdate({
         caseId: activeRecordId,
         responseId,
         metricId,
         evaluatorId,
-        score: value ?? 0
-      };
-
-      // Make API call to update backend
-      const response = await fetch('/api/cases/evaluations/update/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestData),
+        score: value ?? 0,
+        slot: modelResponses.find(m => m.id === responseId)?.slot
       });
+    } catch (error) {
+      console.error('Error updating evaluation:', error);
+    }
+  };
 
-      if (!response.ok) {
-        console.error('API Error:', await response.text());
-        return;
-      }
+  const renderSyncStatus = (responseId: string, metricId: string) => {
+    if (!evaluatorId) return null;
+    const key = outboxKey({ evaluatorId, caseId: activeRecordId, responseId, metricId });
+    const cell = syncCells[key];
+    if (!cell) return null;
 
-      const data = await response.json();
-      onStatusChange?.(data.status);
+    if (cell.status === 'synced') {
+      return (
+        <span title={t('evaluationMetrics.synced')} className="text-green-500">
+          <Check size={14} />
+        </span>
+      );
+    }
+    if (cell.status === 'failed') {
+      return (
+        <button
+          onClick={() => retryScoreUpdate(key)}
+          title={cell.error
+            ? t('evaluationMetrics.syncFailedWithError', { error: cell.error })
+            : t('evaluationMetrics.syncFailed')}
+          className="text-red-500"
+          aria-label={t('evaluationMetrics.retrySync')}
+        >
+          <AlertCircle size={14} />
+        </button>
+      );
+    }
+    return (
+      <span
+        title={cell.attempts > 0
+          ? t('evaluationMetrics.savedLocallyRetrying', { attempts: cell.attempts })
+          : t('evaluationMetrics.savedLocally')}
+        className="text-medical-gray"
+      >
+        <CloudOff size={14} />
+      </span>
+    );
+  };
 
-    } catch (error) {
-      console.error('Error updating evaluation:', error);
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!keyboardScoring || isSubmitting || e.altKey || e.ctrlKey || e.metaKey) return;
+    // Leave the dropdowns' own keyboard handling alone
+    if ((e.target as HTMLElement).tagName === 'SELECT') return;
+
+    const rows = scoredResponses.length;
+    const cols = metrics.length;
+    if (rows === 0 || cols === 0) return;
+
+    const { row, col } = focusedCell;
+    const moveTo = (nextRow: number, nextCol: number) =>
+      setFocusedCell({
+        row: Math.min(Math.max(nextRow, 0), rows - 1),
+        col: Math.min(Math.max(nextCol, 0), cols - 1)
+      });
+
+    if (e.key === '?') {
+      setShowShortcuts(prev => !prev);
+    } else if (e.key === 'Escape') {
+      setShowShortcuts(false);
+    } else if (e.key === 'ArrowLeft') {
+      moveTo(row, col - 1);
+    } else if (e.key === 'ArrowRight') {
+      moveTo(row, col + 1);
+    } else if (e.key === 'ArrowUp') {
+      moveTo(row - 1, col);
+    } else if (e.key === 'ArrowDown') {
+      moveTo(row + 1, col);
+    } else if (/^[1-5]$/.test(e.key)) {
+      if (isScored(scoredResponses[row], metrics[col].id)) {
+        updateEvaluation(scoredResponses[row].id, metrics[col].id, Number(e.key));
+      }
+      // Continue along the row, then on to the next model
+      if (col < cols - 1) {
+        moveTo(row, col + 1);
+      } else if (row < rows - 1) {
+        moveTo(row + 1, 0);
+      }
+    } else if (e.key === 'Backspace' || e.key === 'Delete') {
+      if (isScored(scoredResponses[row], metrics[col].id)) {
+        updateEvaluation(scoredResponses[row].id, metrics[col].id, null);
+      }
+    } else if (e.key === 'Enter') {
+      onSubmit?.();
+    } else {
+      return;
     }
+    e.preventDefault();
   };
 
   // Check if metrics are still loading
-  if (!metrics || metrics.length === 0 || metrics[0].id === '0') {
+  if (!metrics || metrics.length === 0) {
     return (
       <div className="rounded-lg border border-medical-dark-gray/30 overflow-hidden">
         <div className="bg-medical-dark-gray/50 p-3 border-b border-medical-dark-gray/30">
-          <h2 className="text-lg font-medium">EVALUATION METRICS</h2>
+          <h2 className="text-lg font-medium">{t('evaluationMetrics.title')}</h2>
         </div>
         <div className="p-8 text-center">
           <div className="flex items-center justify-center mb-2">
@@ -160,7 +350,7 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            Loading metrics data...
+            {t('evaluationMetrics.loading')}
           </div>
         </div>
       </div>
@@ -172,7 +362,7 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
     return (
       <div className="rounded-lg border border-medical-dark-gray/30 overflow-hidden">
         <div className="bg-medical-dark-gray/50 p-3 border-b border-medical-dark-gray/30">
-          <h2 className="text-lg font-medium">EVALUATION METRICS</h2>
+          <h2 className="text-lg font-medium">{t('evaluationMetrics.title')}</h2>
         </div>
         <div className="p-8 text-center">
           <div className="flex items-center justify-center mb-2">
@@ -180,7 +370,7 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            Processing...
+            {t('evaluationMetrics.processing')}
           </div>
         </div>
       </div>
@@ -192,10 +382,10 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
     return (
       <div className="rounded-lg border border-medical-dark-gray/30 overflow-hidden">
         <div className="bg-medical-dark-gray/50 p-3 border-b border-medical-dark-gray/30">
-          <h2 className="text-lg font-medium">EVALUATION METRICS</h2>
+          <h2 className="text-lg font-medium">{t('evaluationMetrics.title')}</h2>
         </div>
         <div className="p-8 text-center">
-          <p>No evaluation data available. Please refresh the page.</p>
+          <p>{t('evaluationMetrics.noData')}</p>
         </div>
       </div>
     );
@@ -203,28 +393,80 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
 
   return (
     <div className="rounded-lg border border-medical-dark-gray/30 overflow-hidden">
-      <div className="bg-medical-dark-gray/50 p-3 border-b border-medical-dark-gray/30">
-        <h2 className="text-lg font-medium">EVALUATION METRICS</h2>
+      <div className="bg-medical-dark-gray/50 p-3 border-b border-medical-dark-gray/30 flex justify-between items-center">
+        <h2 className="text-lg font-medium">{t('evaluationMetrics.title')}</h2>
+        <div className="flex items-center space-x-2">
+          {keyboardScoring && (
+            <button
+              onClick={() => setShowShortcuts(prev => !prev)}
+              className="px-2 py-1 text-xs rounded-md nav-button text-medical-gray"
+              aria-label={t('evaluationMetrics.keyboardShortcuts')}
+            >
+              ? {t('evaluationMetrics.shortcuts')}
+            </button>
+          )}
+          <button
+            onClick={() => setKeyboardScoring(!keyboardScoring)}
+            className={cn(
+              'p-1.5 rounded-md nav-button',
+              keyboardScoring && 'bg-medical-blue/30'
+            )}
+            aria-label={t('evaluationMetrics.keyboardMode')}
+            aria-pressed={keyboardScoring}
+            title={t('evaluationMetrics.keyboardMode')}
+          >
+            <Keyboard size={18} />
+          </button>
+        </div>
       </div>
 
-      <div className="overflow-x-auto w-full">
+      <div
+        ref={gridRef}
+        tabIndex={keyboardScoring ? 0 : undefined}
+        onKeyDown={handleGridKeyDown}
+        className="relative overflow-x-auto w-full focus:outline-none"
+        aria-label={keyboardScoring ? t('evaluationMetrics.gridLabel') : undefined}
+      >
+        {showShortcuts && (
+          <div className="absolute right-3 top-3 z-10 rounded-lg border border-medical-dark-gray/50 bg-medical-darkest-gray p-4 shadow-lg">
+            <h3 className="mb-2 text-sm font-medium">{t('evaluationMetrics.keyboardShortcuts')}</h3>
+            <dl className="grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-xs">
+              {SHORTCUTS.map(([keys, description]) => (
+                <React.Fragment key={keys}>
+                  <dt className="font-mono text-medical-light-blue">{keys}</dt>
+                  <dd className="text-medical-gray">{t(description)}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        )}
         <table className="w-full text-sm">
           <thead>
             <tr className="bg-medical-dark-gray/30 border-b border-medical-dark-gray/30">
-              <th className="p-3 text-left w-24">MODEL</th>
+              <th className="p-3 text-left w-24">{t('evaluationMetrics.model')}</th>
               {metrics.map((metric) => (
-                <th key={metric.id} className="p-3 text-center">
+                <th
+                  key={metric.id}
+                  className="p-3 text-center"
+                  onMouseEnter={() => onSectionFocus?.(metric.section ?? null)}
+                  onMouseLeave={() => onSectionFocus?.(null)}
+                >
                   {metric.name}
+                  {metric.section && (
+                    <span className="block text-xs font-normal text-medical-gray">
+                      {t(`sections.${metric.section}`)}
+                    </span>
+                  )}
                 </th>
               ))}
+              <th className="p-3 text-center w-20">{t('evaluationMetrics.notes')}</th>
             </tr>
           </thead>
 
           <tbody>
-            {modelResponses
-              .filter(modelResponse => modelResponse.response && modelResponse.response.response)
-              .map((modelResponse) => {
-                const model = activeEvaluation?.find(m => m.responseId === modelResponse.id) || {
+            {scoredResponses
+              .map((modelResponse, rowIndex) => {
+                const model: Evaluation = activeEvaluation?.find(m => m.responseId === modelResponse.id) || {
                   responseId: modelResponse.id,
                   metrics: metrics.map(m => ({ id: m.id, name: m.name, value: null }))
                 };
@@ -238,51 +480,94 @@ export const EvaluationMetrics: React.FC<EvaluationMetricsProps> = ({
                       {modelResponse.model_name}
                     </td>
 
-                    {metrics.map((metric) => {
+                    {metrics.map((metric, colIndex) => {
                       const score = model.metrics.find(
                         (x) => x.id === metric.id
                       )?.value;
+                      const isFocused = keyboardScoring &&
+                        focusedCell.row === rowIndex &&
+                        focusedCell.col === colIndex;
+
+                      if (!isScored(modelResponse, metric.id)) {
+                        return (
+                          <td
+                            key={`${model.responseId}-${metric.id}`}
+                            className={cn(
+                              "p-3 text-center text-medical-gray",
+                              isFocused && "bg-medical-blue/20 ring-2 ring-inset ring-medical-blue"
+                            )}
+                            title={t('evaluationMetrics.notApplicable')}
+                          >
+                            —
+                          </td>
+                        );
+                      }
 
                       return (
                         <td
                           key={`${model.responseId}-${metric.id}`}
-                          className="p-3 text-center"
+                          className={cn(
+                            "p-3 text-center",
+                            isFocused && "bg-medical-blue/20 ring-2 ring-inset ring-medical-blue"
+                          )}
+                          onClick={() => {
+                            if (keyboardScoring) setFocusedCell({ row: rowIndex, col: colIndex });
+                          }}
+                          onMouseEnter={() => onSectionFocus?.(metric.section ?? null)}
+                          onMouseLeave={() => onSectionFocus?.(null)}
                         >
-                          <select
-                            value={score ?? ''}
-                            name="metrics"
-                            id="rate-model-output"
-                            disabled={isSubmitting}
-                            onChange={(e) => {
-                              const val = e.target.value;
-                              const newValue = val === '' ? null : Number(val);
-                              updateEvaluation(model.responseId, metric.id, newValue);
-                            }}
-                            className={cn(
-                              "w-20 h-8 rounded text-center",
-                              getScoreColor(score),
-                              "border border-medical-dark-gray/30",
-                              "focus:outline-none focus:ring-2 focus:ring-medical-blue",
-                              "disabled:opacity-50"
-                            )}
-                          >
-                            <option value="">--</option>
-                            {[1, 2, 3, 4, 5].map((value) => (
-                              <option 
-                                key={value} 
-                                value={value}
-                                className={cn(
-                                  getScoreColor(value),
-                                  "font-medium"
-                                )}
-                              >
-                                {value}
-                              </option>
-                            ))}
-                          </select>
+                          <div className="inline-flex items-center gap-1.5">
+                            <select
+                              value={score ?? ''}
+                              name="metrics"
+                              id="rate-model-output"
+                              disabled={isSubmitting}
+                              onChange={(e) => {
+                                const val = e.target.value;
+                                const newValue = val === '' ? null : Number(val);
+                                updateEvaluation(model.responseId, metric.id, newValue);
+                              }}
+                              className={cn(
+                                "w-20 h-8 rounded text-center",
+                                getScoreColor(score),
+                                "border border-medical-dark-gray/30",
+                                "focus:outline-none focus:ring-2 focus:ring-medical-blue",
+                                "disabled:opacity-50"
+                              )}
+                            >
+                              <option value="">--</option>
+                              {[1, 2, 3, 4, 5].map((value) => (
+                                <option 
+                                  key={value} 
+                                  value={value}
+                                  className={cn(
+                                    getScoreColor(value),
+                                    "font-medium"
+                                  )}
+                                >
+                                  {value}
+                                </option>
+                              ))}
+                            </select>
+                            <span className="w-3.5">
+                              {renderSyncStatus(model.responseId, metric.id)}
+                            </span>
+                          </div>
                         </td>
                       );
                     })}
+
+                    <td className="p-3 text-center">
+                      <ResponseFeedbackPopover
+                        modelName={modelResponse.model_name}
+                        comment={model.comment || ''}
+                        selectedTags={model.errorTags || []}
+                        availableTags={errorTags}
+                        onChange={(feedback) => updateFeedback(model.responseId, feedback)}
+                        status={feedbackStatus[model.responseId]}
+                        disabled={isSubmitting}
+                      />
+                    </td>
                   </tr>
                 );
               })}
@@ -1,89 +1,529 @@
-import React, { useState } from 'react'
+import React, { useRef, useState } from 'react'
 import {
   ZoomIn,
   ZoomOut,
   Maximize,
+  Contrast,
+  SunDim,
+  RotateCcw,
+  Hand,
+  ScanEye,
+  Info,
+  Columns2,
+  Flame,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Slider } from '@/components/ui/slider'
+import { ViewerTool } from '@/components/XrayViewport'
+import { XrayPane } from '@/components/XrayPane'
+import { AnnotationLayer } from '@/components/AnnotationLayer'
+import { ModelOverlayLayer } from '@/components/ModelOverlayLayer'
+import { AnnotationToolbar, AnnotationTargets } from '@/components/AnnotationToolbar'
+import useViewerStore from '@/stores/viewer'
+import useAnnotationStore from '@/stores/annotations'
+import useXrayImage from '@/hooks/use-xray-image'
+import useTranslation from '@/hooks/use-translation'
+import useAnnotationSync from '@/hooks/use-annotation-sync'
+import useAnnotationDraft, { isAnnotationTool } from '@/hooks/use-annotation-draft'
+import { Annotation, ModelOverlay, StudyImage } from '@/types'
+import {
+  DisplaySettings,
+  MIN_GAMMA,
+  MAX_GAMMA,
+  defaultDisplaySettings,
+} from '@/lib/imaging'
+import { looksLikeDicomUrl } from '@/lib/dicom'
+import { DEFAULT_VIEWPORT, FitMode, Size, fitViewport, zoomAt } from '@/lib/viewport'
 
 interface ImageViewerProps {
-  currentImage: string
+  caseId: string
+  images: StudyImage[]
   currentIndex: number
   onChangeImage: (index: number) => void
-  totalImages?: number
+  // Annotations are only enabled when the evaluator is known
+  evaluatorId?: string | null
+  annotationTargets?: AnnotationTargets
+  // Heatmaps / grounding boxes of the model responses that have one
+  overlays?: { responseId: string; label: string; overlay: ModelOverlay }[]
+  // Response whose report panel is hovered; its overlay takes precedence over the pinned one
+  hoveredResponseId?: string | null
+}
+
+const FIT_PRESETS: { mode: FitMode; label: string }[] = [
+  { mode: 'contain', label: 'viewer.fit.contain' },
+  { mode: 'width', label: 'viewer.fit.width' },
+  { mode: 'height', label: 'viewer.fit.height' },
+  { mode: 'pixel', label: 'viewer.fit.pixel' },
+]
+
+const ROLE_LABELS = {
+  frontal: 'viewer.roles.frontal',
+  lateral: 'viewer.roles.lateral',
+  prior: 'viewer.roles.prior',
+}
+
+const NO_TARGETS: AnnotationTargets = { responses: [], metrics: [] }
+const NO_ANNOTATIONS: Annotation[] = []
+const NO_OVERLAYS: ImageViewerProps['overlays'] = []
+
+// Default comparison: the first prior study, otherwise the next image
+function defaultCompareIndex(images: StudyImage[], currentIndex: number): number {
+  const prior = images.findIndex((image, index) => index !== currentIndex && image.role === 'prior')
+  if (prior !== -1) return prior
+  return (currentIndex + 1) % images.length
 }
 
 export const ImageViewer: React.FC<ImageViewerProps> = ({
-  currentImage,
+  caseId,
+  images,
   currentIndex,
   onChangeImage,
-  totalImages = 1,
+  evaluatorId = null,
+  annotationTargets = NO_TARGETS,
+  overlays = NO_OVERLAYS,
+  hoveredResponseId = null,
 }) => {
-  const [zoomLevel, setZoomLevel] = useState(1)
+  const { t } = useTranslation()
+  const [tool, setTool] = useState<ViewerTool>('pan')
+  const [target, setTarget] = useState<{ responseId: string | null; metricId: string | null }>({
+    responseId: null,
+    metricId: null,
+  })
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null)
+  const [annotationListOpen, setAnnotationListOpen] = useState(false)
+  const [pinnedOverlayId, setPinnedOverlayId] = useState<string | null>(null)
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5)
+  const [showHeader, setShowHeader] = useState(false)
+  const [compareMode, setCompareMode] = useState(false)
+  const [compareIndex, setCompareIndex] = useState<number | null>(null)
+  const inlineSizeRef = useRef<Size>({ width: 0, height: 0 })
+
+  const totalImages = images.length
+  const canCompare = totalImages > 1
+  const isComparing = compareMode && canCompare
+  const resolvedCompareIndex = compareIndex !== null && compareIndex !== currentIndex && compareIndex < totalImages
+    ? compareIndex
+    : canCompare ? defaultCompareIndex(images, currentIndex) : 0
+
+  const xray = useXrayImage(images[currentIndex]?.url ?? null)
+  const compareXray = useXrayImage(isComparing ? images[resolvedCompareIndex].url : null)
+  const { image, header } = xray
+
+  // Window/level is per image; in compare mode both panes share one viewport so pan/zoom stay in sync
+  const displayKey = `${caseId}:${currentIndex}`
+  const viewportKey = isComparing ? `${caseId}:compare` : displayKey
+
+  const storedSettings = useViewerStore((state) => state.display[displayKey])
+  const viewport = useViewerStore((state) => state.viewport[viewportKey]) ?? DEFAULT_VIEWPORT
+  const setDisplay = useViewerStore((state) => state.setDisplay)
+  const setViewport = useViewerStore((state) => state.setViewport)
+  const resetView = useViewerStore((state) => state.resetView)
+
+  const settings = storedSettings ?? (image ? defaultDisplaySettings(image) : null)
+
+  const canAnnotate = useAnnotationSync(caseId, evaluatorId)
+  const annotations = useAnnotationStore((state) => state.items[caseId]) ?? NO_ANNOTATIONS
+  const activeTool = !canAnnotate && isAnnotationTool(tool) ? 'pan' : tool
+  const { draft, handleImagePointer } = useAnnotationDraft({
+    caseId,
+    imageIndex: currentIndex,
+    tool: activeTool,
+    ...target,
+    onCreated: (annotation) => {
+      // Open the list so a new text label can be named straight away
+      if (annotation.type === 'text') {
+        setSelectedAnnotationId(annotation.id)
+        setAnnotationListOpen(true)
+      }
+    },
+  })
+
+  const imageLabel = (studyImage: StudyImage): string => {
+    const label = studyImage.label || t(ROLE_LABELS[studyImage.role])
+    return studyImage.studyDate ? `${label} (${studyImage.studyDate})` : label
+  }
+
+  const activeOverlay = overlays.find((item) => item.responseId === hoveredResponseId)
+    ?? overlays.find((item) => item.responseId === pinnedOverlayId)
+
+  const annotationCaption = (annotation: Annotation) => {
+    const response = annotationTargets.responses.find((r) => r.id === annotation.responseId)
+    const metric = annotationTargets.metrics.find((m) => m.id === annotation.metricId)
+    return [response?.label, metric?.name].filter(Boolean).join(' · ')
+  }
+
+  const renderAnnotations = (imageIndex: number, withDraft: boolean) => {
+    const studyImage = imageIndex === currentIndex ? image : compareXray.image
+    const spacing = imageIndex === currentIndex ? header?.pixelSpacing : compareXray.header?.pixelSpacing
+    const overlay = activeOverlay?.overlay.imageIndex === imageIndex ? activeOverlay.overlay : null
+    if (!studyImage || (!canAnnotate && !overlay)) return undefined
+    return (scale: number) => (
+      <>
+        {overlay && (
+          <ModelOverlayLayer
+            width={studyImage.width}
+            height={studyImage.height}
+            scale={scale}
+            overlay={overlay}
+            opacity={overlayOpacity}
+          />
+        )}
+        {canAnnotate && (
+          <AnnotationLayer
+            width={studyImage.width}
+            height={studyImage.height}
+            scale={scale}
+            annotations={annotations.filter((annotation) => annotation.imageIndex === imageIndex)}
+            draft={withDraft ? draft : null}
+            selectedId={selectedAnnotationId}
+            pixelSpacing={spacing}
+            caption={annotationCaption}
+          />
+        )}
+      </>
+    )
+  }
 
-  const handleZoomIn = () => {
-    setZoomLevel((prev) => Math.min(prev + 0.25, 3))
+  const updateSettings = (partial: Partial<DisplaySettings>) => {
+    if (!settings) return
+    setDisplay(displayKey, { ...settings, ...partial })
   }
 
-  const handleZoomOut = () => {
-    setZoomLevel((prev) => Math.max(prev - 0.25, 0.5))
+  const zoomBy = (factor: number) => {
+    if (!image || !inlineSizeRef.current.width) return
+    setViewport(viewportKey, zoomAt(viewport, inlineSizeRef.current, image, factor))
   }
 
+  const canAdjust = !!image && !!settings
+
+  const renderPanes = (fullSize: boolean) => (
+    <div className="flex-1 flex gap-1 min-h-0 w-full h-full">
+      <XrayPane
+        xray={xray}
+        displayKey={displayKey}
+        viewportKey={viewportKey}
+        tool={activeTool}
+        showHeader={showHeader}
+        label={isComparing ? imageLabel(images[currentIndex]) : undefined}
+        onResize={fullSize ? undefined : (size) => { inlineSizeRef.current = size }}
+        onImagePointer={handleImagePointer}
+        renderOverlay={renderAnnotations(currentIndex, true)}
+      />
+      {isComparing && (
+        <XrayPane
+          xray={compareXray}
+          displayKey={`${caseId}:${resolvedCompareIndex}`}
+          viewportKey={viewportKey}
+          tool={isAnnotationTool(activeTool) ? 'pan' : activeTool}
+          showHeader={showHeader}
+          label={imageLabel(images[resolvedCompareIndex])}
+          renderOverlay={renderAnnotations(resolvedCompareIndex, false)}
+          className="border-l border-medical-dark-gray/30"
+        />
+      )}
+    </div>
+  )
+
+  const renderThumbnails = () => (
+    <div className="flex items-center gap-2 p-2 border-t border-medical-dark-gray/30 overflow-x-auto">
+      {images.map((studyImage, index) => (
+        <button
+          key={studyImage.id || `${studyImage.url}-${index}`}
+          onClick={() => onChangeImage(index)}
+          className={cn(
+            'flex-shrink-0 w-16 rounded border text-[10px] overflow-hidden nav-button',
+            index === currentIndex
+              ? 'border-medical-blue'
+              : isComparing && index === resolvedCompareIndex
+                ? 'border-medical-light-blue/60 border-dashed'
+                : 'border-medical-dark-gray/50'
+          )}
+          aria-label={t('viewer.showImage', { label: imageLabel(studyImage) })}
+          aria-current={index === currentIndex}
+        >
+          <div className="h-12 bg-black flex items-center justify-center">
+            {looksLikeDicomUrl(studyImage.url) ? (
+              <span className="text-medical-gray">{t('viewer.dicom')}</span>
+            ) : (
+              <img src={studyImage.url} alt="" className="max-h-full max-w-full object-contain" />
+            )}
+          </div>
+          <div className="px-1 py-0.5 truncate">{imageLabel(studyImage)}</div>
+        </button>
+      ))}
+
+      {isComparing && (
+        <label className="ml-auto flex items-center gap-2 text-xs text-medical-gray">
+          {t('viewer.compareWith')}
+          <select
+            value={resolvedCompareIndex}
+            onChange={(e) => setCompareIndex(Number(e.target.value))}
+            className="h-7 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-foreground"
+          >
+            {images.map((studyImage, index) => index !== currentIndex && (
+              <option key={index} value={index}>{imageLabel(studyImage)}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  )
+
   return (
     <div className="flex flex-col h-full bg-medical-darkest-gray rounded-lg overflow-hidden border border-medical-dark-gray/30">
       <div className="p-3 border-b border-medical-dark-gray/30 flex justify-between items-center">
-        <h2 className="text-lg font-medium">Chest X-Ray</h2>
+        <h2 className="text-lg font-medium">
+          {t('viewer.title')}
+          {totalImages > 1 && (
+            <span className="ml-2 text-sm text-medical-gray">
+              {currentIndex + 1} / {totalImages}
+            </span>
+          )}
+          {activeOverlay && (
+            <span className="ml-2 text-sm text-orange-400">{t('viewer.overlayMap', { label: activeOverlay.label })}</span>
+          )}
+        </h2>
         <div className="flex items-center space-x-1">
           <button
-            onClick={handleZoomOut}
-            className="p-1.5 rounded-md nav-button"
-            aria-label="Zoom out"
+            onClick={() => zoomBy(1 / 1.25)}
+            disabled={!canAdjust}
+            className="p-1.5 rounded-md nav-button disabled:opacity-40"
+            aria-label={t('viewer.zoomOut')}
           >
             <ZoomOut size={18} />
           </button>
           <button
-            onClick={handleZoomIn}
-            className="p-1.5 rounded-md nav-button"
-            aria-label="Zoom in"
+            onClick={() => zoomBy(1.25)}
+            disabled={!canAdjust}
+            className="p-1.5 rounded-md nav-button disabled:opacity-40"
+            aria-label={t('viewer.zoomIn')}
           >
             <ZoomIn size={18} />
           </button>
 
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                disabled={!canAdjust}
+                className="p-1.5 rounded-md nav-button disabled:opacity-40"
+                aria-label={t('viewer.fitPresets')}
+              >
+                <ScanEye size={18} />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-2 flex space-x-1">
+              {FIT_PRESETS.map((preset) => (
+                <button
+                  key={preset.mode}
+                  onClick={() => setViewport(viewportKey, fitViewport(preset.mode, viewport))}
+                  className={cn(
+                    'px-2 py-1 text-sm rounded-md nav-button',
+                    viewport.fit === preset.mode && 'bg-medical-blue/30'
+                  )}
+                >
+                  {t(preset.label)}
+                </button>
+              ))}
+            </PopoverContent>
+          </Popover>
+
+          <button
+            onClick={() => setTool('pan')}
+            disabled={!canAdjust}
+            className={cn(
+              'p-1.5 rounded-md nav-button disabled:opacity-40',
+              activeTool === 'pan' && 'bg-medical-blue/30'
+            )}
+            aria-label={t('viewer.panTool')}
+            aria-pressed={activeTool === 'pan'}
+          >
+            <Hand size={18} />
+          </button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                onClick={() => setTool('window')}
+                disabled={!canAdjust}
+                className={cn(
+                  'p-1.5 rounded-md nav-button disabled:opacity-40',
+                  activeTool === 'window' && 'bg-medical-blue/30'
+                )}
+                aria-label={t('viewer.windowTool')}
+                aria-pressed={activeTool === 'window'}
+              >
+                <SunDim size={18} />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-3">
+              <div className="flex justify-between text-sm">
+                <span>{t('viewer.gamma')}</span>
+                <span className="text-medical-gray">{settings?.gamma.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={MIN_GAMMA}
+                max={MAX_GAMMA}
+                step={0.05}
+                value={[settings?.gamma ?? 1]}
+                onValueChange={([gamma]) => updateSettings({ gamma })}
+              />
+              {!!image?.presets?.length && (
+                <div className="flex flex-wrap gap-1">
+                  {image.presets.map((preset, index) => (
+                    <button
+                      key={`${preset.label}-${index}`}
+                      onClick={() => updateSettings({
+                        windowWidth: preset.windowWidth,
+                        windowCenter: preset.windowCenter,
+                      })}
+                      className="px-2 py-1 text-xs rounded-md border border-medical-dark-gray/50 nav-button"
+                    >
+                      {preset.label || t('viewer.preset', { number: index + 1 })}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {settings && (
+                <p className="text-xs text-medical-gray">
+                  {t('viewer.windowLevel', {
+                    width: Math.round(settings.windowWidth),
+                    level: Math.round(settings.windowCenter),
+                  })}
+                </p>
+              )}
+            </PopoverContent>
+          </Popover>
+
+          <button
+            onClick={() => updateSettings({ invert: !settings?.invert })}
+            disabled={!canAdjust}
+            className={cn(
+              'p-1.5 rounded-md nav-button disabled:opacity-40',
+              settings?.invert && 'bg-medical-blue/30'
+            )}
+            aria-label={t('viewer.invert')}
+            aria-pressed={!!settings?.invert}
+          >
+            <Contrast size={18} />
+          </button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                disabled={!canAdjust || overlays.length === 0}
+                className={cn(
+                  'p-1.5 rounded-md nav-button disabled:opacity-40',
+                  activeOverlay && 'bg-medical-blue/30'
+                )}
+                aria-label={t('viewer.overlay')}
+              >
+                <Flame size={18} />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-3">
+              <select
+                value={pinnedOverlayId ?? ''}
+                onChange={(e) => setPinnedOverlayId(e.target.value || null)}
+                className="w-full h-8 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-sm text-foreground"
+                aria-label={t('viewer.overlaySelect')}
+              >
+                <option value="">{t('viewer.noOverlay')}</option>
+                {overlays.map((item) => (
+                  <option key={item.responseId} value={item.responseId}>{item.label}</option>
+                ))}
+              </select>
+              <div className="flex justify-between text-sm">
+                <span>{t('viewer.opacity')}</span>
+                <span className="text-medical-gray">{Math.round(overlayOpacity * 100)}%</span>
+              </div>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                value={[overlayOpacity]}
+                onValueChange={([opacity]) => setOverlayOpacity(opacity)}
+              />
+              <p className="text-xs text-medical-gray">
+                {t('viewer.overlayHint')}
+              </p>
+            </PopoverContent>
+          </Popover>
+
+          <button
+            onClick={() => setShowHeader((prev) => !prev)}
+            disabled={!header}
+            className={cn(
+              'p-1.5 rounded-md nav-button disabled:opacity-40',
+              showHeader && header && 'bg-medical-blue/30'
+            )}
+            aria-label={t('viewer.dicomHeader')}
+            aria-pressed={showHeader}
+          >
+            <Info size={18} />
+          </button>
+
+          <button
+            onClick={() => setCompareMode((prev) => !prev)}
+            disabled={!canCompare}
+            className={cn(
+              'p-1.5 rounded-md nav-button disabled:opacity-40',
+              isComparing && 'bg-medical-blue/30'
+            )}
+            aria-label={t('viewer.compare')}
+            aria-pressed={isComparing}
+          >
+            <Columns2 size={18} />
+          </button>
+
+          <button
+            onClick={() => resetView(displayKey, viewportKey)}
+            className="p-1.5 rounded-md nav-button"
+            aria-label={t('viewer.reset')}
+          >
+            <RotateCcw size={18} />
+          </button>
+
           <Dialog>
             <DialogTrigger asChild>
               <button
                 className="p-1.5 rounded-md nav-button"
-                aria-label="View full image"
+                aria-label={t('viewer.fullImage')}
               >
                 <Maximize size={18} />
               </button>
             </DialogTrigger>
-            <DialogContent className="max-w-4xl w-full p-0 bg-medical-darkest-gray">
-              <div className="p-4 flex items-center justify-center">
-                <img
-                  src={currentImage}
-                  alt="Full size X-ray"
-                  className="max-h-[80vh] object-contain"
-                />
+            <DialogContent className="max-w-6xl w-full p-0 bg-medical-darkest-gray">
+              <div className="h-[85vh] flex">
+                {renderPanes(true)}
               </div>
             </DialogContent>
           </Dialog>
         </div>
       </div>
 
-      <div className="flex-1 flex items-center justify-center overflow-hidden relative">
-        <div
-          className="transition-transform duration-300 ease-out"
-          style={{ transform: `scale(${zoomLevel})` }}
-        >
-          <img
-            src={currentImage}
-            alt="X-ray image"
-            className="max-w-full max-h-full object-contain"
-          />
-        </div>
+      {canAnnotate && (
+        <AnnotationToolbar
+          caseId={caseId}
+          tool={activeTool}
+          onToolChange={setTool}
+          targets={annotationTargets}
+          responseId={target.responseId}
+          metricId={target.metricId}
+          onTargetChange={setTarget}
+          selectedId={selectedAnnotationId}
+          onSelect={setSelectedAnnotationId}
+          listOpen={annotationListOpen}
+          onListOpenChange={setAnnotationListOpen}
+        />
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {renderPanes(false)}
       </div>
+
+      {totalImages > 1 && renderThumbnails()}
     </div>
   )
 }
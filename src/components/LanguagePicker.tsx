@@ -0,0 +1,34 @@
+import React from 'react'
+import { Languages } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { LOCALES, isLocale } from '@/lib/i18n'
+import useTranslation from '@/hooks/use-translation'
+
+interface LanguagePickerProps {
+  className?: string
+}
+
+// UI language select; the choice is remembered for the signed-in user
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ className }) => {
+  const { t, locale, setLocale } = useTranslation()
+
+  return (
+    <label className={cn('inline-flex items-center gap-1.5 text-sm text-medical-gray', className)}>
+      <Languages size={16} aria-hidden />
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value)
+        }}
+        className="h-8 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-sm text-foreground"
+      >
+        {LOCALES.map((item) => (
+          <option key={item.code} value={item.code}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { loadHeatmap } from '@/lib/heatmap'
+import { ModelOverlay } from '@/types'
+
+interface ModelOverlayLayerProps {
+  width: number
+  height: number
+  // Current CSS pixels per image pixel, used to keep strokes and text a constant size
+  scale: number
+  overlay: ModelOverlay
+  opacity: number
+}
+
+const BOX_COLOR = '#f97316'
+
+// Draws a model's heatmap and grounding boxes in image pixel space. The heatmap
+// is stretched to the image size, since maps are often produced at lower resolution.
+export const ModelOverlayLayer: React.FC<ModelOverlayLayerProps> = ({
+  width,
+  height,
+  scale,
+  overlay,
+  opacity,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [heatmap, setHeatmap] = useState<ImageData | null>(null)
+  const [canvasUnavailable, setCanvasUnavailable] = useState(false)
+
+  useEffect(() => {
+    setHeatmap(null)
+    setCanvasUnavailable(false)
+    if (!overlay.heatmapUrl) return
+
+    const controller = new AbortController()
+    loadHeatmap(overlay.heatmapUrl, controller.signal)
+      .then(setHeatmap)
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error('Error loading heatmap:', overlay.heatmapUrl, error)
+        setCanvasUnavailable(true)
+      })
+
+    return () => controller.abort()
+  }, [overlay.heatmapUrl])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !heatmap) return
+    canvas.width = heatmap.width
+    canvas.height = heatmap.height
+    canvas.getContext('2d')?.putImageData(heatmap, 0, 0)
+  }, [heatmap])
+
+  const stroke = 2 / scale
+  const fontSize = 12 / scale
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {heatmap && (
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" style={{ opacity }} />
+      )}
+      {canvasUnavailable && overlay.heatmapUrl && (
+        // Without pixel access the map can't be colourised, so blend it as-is
+        <img
+          src={overlay.heatmapUrl}
+          alt=""
+          className="absolute inset-0 w-full h-full mix-blend-screen"
+          style={{ opacity }}
+        />
+      )}
+      {overlay.boxes.length > 0 && (
+        <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox={`0 0 ${width} ${height}`}>
+          {overlay.boxes.map((box, index) => {
+            const label = [box.label, box.score !== undefined && box.score.toFixed(2)]
+              .filter(Boolean)
+              .join(' ')
+            return (
+              <g key={index} opacity={Math.max(opacity, 0.4)}>
+                <rect
+                  x={box.x}
+                  y={box.y}
+                  width={box.width}
+                  height={box.height}
+                  fill="none"
+                  stroke={BOX_COLOR}
+                  strokeWidth={stroke}
+                />
+                {label && (
+                  <text
+                    x={box.x}
+                    y={box.y - 4 / scale}
+                    fill={BOX_COLOR}
+                    fontSize={fontSize}
+                    stroke="black"
+                    strokeWidth={stroke * 1.5}
+                    paintOrder="stroke"
+                  >
+                    {label}
+                  </text>
+                )}
+              </g>
+            )
+          })}
+        </svg>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import React from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import useTranslation from '@/hooks/use-translation'
+import { CasePreference, PairwiseComparison, PairwiseOutcome } from '@/types'
+
+interface PreferenceInputProps {
+  mode: CasePreference['mode']
+  // In blinded order, labelled "Model n" like the report panels
+  responses: { id: string; label: string }[]
+  ranking: string[]
+  comparisons: PairwiseComparison[]
+  onRankingChange: (ranking: string[]) => void
+  // False while the ranking is still the default order
+  rankingConfirmed: boolean
+  onRankingConfirm: () => void
+  onComparisonsChange: (comparisons: PairwiseComparison[]) => void
+  onHoverChange?: (responseId: string | null) => void
+  disabled?: boolean
+}
+
+// Every pair of responses, in the order they are shown
+function responsePairs(ids: string[]): [string, string][] {
+  return ids.flatMap((left, index) => ids.slice(index + 1).map((right): [string, string] => [left, right]))
+}
+
+const outcomeButtonClassName = 'flex-1 px-3 py-1.5 rounded-md border text-sm transition-colors disabled:opacity-50'
+
+// Comparative alternative to EvaluationMetrics: rank all responses best
+// first, or pick the better of each pair (or a tie)
+export const PreferenceInput: React.FC<PreferenceInputProps> = ({
+  mode,
+  responses,
+  ranking,
+  comparisons,
+  onRankingChange,
+  rankingConfirmed,
+  onRankingConfirm,
+  onComparisonsChange,
+  onHoverChange,
+  disabled,
+}) => {
+  const { t } = useTranslation()
+  const labelOf = (id: string) => responses.find((response) => response.id === id)?.label || id
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranking]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+    onRankingChange(next)
+  }
+
+  const setOutcome = (left: string, right: string, outcome: PairwiseOutcome) => {
+    const others = comparisons.filter(
+      (comparison) => !(comparison.leftResponseId === left && comparison.rightResponseId === right)
+    )
+    onComparisonsChange([...others, { leftResponseId: left, rightResponseId: right, outcome }])
+  }
+
+  if (mode === 'ranking') {
+    return (
+      <div className="rounded-lg border border-medical-dark-gray/30 bg-medical-dark-gray/30 p-4">
+        <h3 className="text-sm font-medium text-medical-gray uppercase mb-3">
+          {t('preference.rankTitle')}
+        </h3>
+        <ol className="space-y-2">
+          {ranking.map((id, index) => (
+            <li
+              key={id}
+              className="flex items-center gap-3 rounded-md bg-medical-dark-gray/50 px-3 py-2"
+              onMouseEnter={() => onHoverChange?.(id)}
+              onMouseLeave={() => onHoverChange?.(null)}
+            >
+              <span className="w-6 text-medical-light-blue font-medium">{index + 1}.</span>
+              <span className="flex-1">{labelOf(id)}</span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                className="p-1 rounded-md nav-button disabled:opacity-40"
+                aria-label={t('preference.moveUp', { model: labelOf(id) })}
+              >
+                <ArrowUp size={16} />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === ranking.length - 1}
+                className="p-1 rounded-md nav-button disabled:opacity-40"
+                aria-label={t('preference.moveDown', { model: labelOf(id) })}
+              >
+                <ArrowDown size={16} />
+              </button>
+            </li>
+          ))}
+        </ol>
+        {!rankingConfirmed && (
+          <div className="mt-3 flex items-center justify-between gap-3 text-sm text-medical-gray">
+            <span>{t('preference.confirmHint')}</span>
+            <button
+              onClick={onRankingConfirm}
+              disabled={disabled}
+              className="shrink-0 px-3 py-1.5 rounded-md border border-medical-dark-gray/50 hover:text-foreground transition-colors disabled:opacity-50"
+            >
+              {t('preference.keepOrder')}
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const pairs = responsePairs(responses.map((response) => response.id))
+
+  return (
+    <div className="rounded-lg border border-medical-dark-gray/30 bg-medical-dark-gray/30 p-4">
+      <h3 className="text-sm font-medium text-medical-gray uppercase mb-3">
+        {t('preference.pairwiseTitle')}
+      </h3>
+      <div className="space-y-2">
+        {pairs.map(([left, right]) => {
+          const outcome = comparisons.find(
+            (comparison) => comparison.leftResponseId === left && comparison.rightResponseId === right
+          )?.outcome
+          const options: { value: PairwiseOutcome; label: string }[] = [
+            { value: 'left', label: t('preference.isBetter', { model: labelOf(left) }) },
+            { value: 'tie', label: t('preference.tie') },
+            { value: 'right', label: t('preference.isBetter', { model: labelOf(right) }) },
+          ]
+
+          return (
+            <div key={`${left}:${right}`} className="flex gap-2">
+              {options.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setOutcome(left, right, option.value)}
+                  onMouseEnter={() => onHoverChange?.(option.value === 'right' ? right : option.value === 'left' ? left : null)}
+                  onMouseLeave={() => onHoverChange?.(null)}
+                  disabled={disabled}
+                  aria-pressed={outcome === option.value}
+                  className={cn(
+                    outcomeButtonClassName,
+                    outcome === option.value
+                      ? 'bg-medical-blue border-medical-blue text-white'
+                      : 'border-medical-dark-gray/50 text-medical-gray hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import React from 'react'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { errorMessageKey } from '@/services/errors'
+import useTranslation from '@/hooks/use-translation'
+
+// Loading and error states shared by pages that show query results. With
+// `fullScreen` they take the whole page, for routes that can't render without
+// their data.
+
+interface QueryLoadingProps {
+  message?: string
+  fullScreen?: boolean
+}
+
+interface QueryErrorProps {
+  message: string
+  // The failure, shown as the likely cause (offline, server error...)
+  error?: unknown
+  onRetry: () => void
+  fullScreen?: boolean
+  className?: string
+}
+
+const FULL_SCREEN = 'min-h-screen flex flex-col items-center justify-center bg-medical-darkest-gray text-foreground'
+
+export const QueryLoading: React.FC<QueryLoadingProps> = ({ message, fullScreen }) => (
+  <div className={cn(fullScreen ? FULL_SCREEN : 'flex flex-col items-center justify-center py-8')}>
+    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    {message && <p className="mt-3 text-lg">{message}</p>}
+  </div>
+)
+
+export const QueryError: React.FC<QueryErrorProps> = ({ message, error, onRetry, fullScreen, className }) => {
+  const { t } = useTranslation()
+
+  const alert = (
+    <Alert variant="destructive" className={cn(fullScreen && 'max-w-md', className)}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{t('common.error')}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{message}</p>
+        {error !== undefined && error !== null && <p className="text-sm">{t(errorMessageKey(error))}</p>}
+        <Button variant="outline" size="sm" onClick={onRetry}>{t('common.retry')}</Button>
+      </AlertDescription>
+    </Alert>
+  )
+
+  return fullScreen ? <div className={FULL_SCREEN}>{alert}</div> : alert
+}
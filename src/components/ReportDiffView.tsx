@@ -0,0 +1,69 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+import { SentenceDiffStatus, diffReport } from '@/lib/report-diff'
+import { reportSentences } from '@/lib/report-text'
+import useTranslation from '@/hooks/use-translation'
+import { ParsedReport } from '@/types'
+
+interface ReportDiffViewProps {
+  groundTruth: ParsedReport
+  response: ParsedReport
+  onHoverSentence?: (groundTruthIndex: number | null) => void
+}
+
+const STATUS_STYLES: { [status in SentenceDiffStatus]: string } = {
+  match: 'border-medical-dark-gray/50',
+  addition: 'border-green-500 bg-green-500/10',
+  contradiction: 'border-red-500 bg-red-500/10',
+}
+
+// Model response sentence by sentence, each next to the ground truth sentence
+// it was aligned to, followed by the ground truth sentences it leaves out
+export const ReportDiffView: React.FC<ReportDiffViewProps> = ({
+  groundTruth,
+  response,
+  onHoverSentence,
+}) => {
+  const { t } = useTranslation()
+  const reference = reportSentences(groundTruth)
+  const diff = diffReport(groundTruth, response)
+
+  return (
+    <div className="space-y-2 text-sm">
+      {diff.sentences.map((item) => (
+        <div
+          key={`${item.section}:${item.sentence.start}`}
+          className={cn('grid grid-cols-2 gap-3 border-l-2 pl-2 py-1 rounded-r', STATUS_STYLES[item.status])}
+          onMouseEnter={() => onHoverSentence?.(item.groundTruthIndex)}
+          onMouseLeave={() => onHoverSentence?.(null)}
+        >
+          <div>
+            <span className="block text-[10px] uppercase text-medical-gray">
+              {t(`diff.${item.status}`)}
+            </span>
+            {item.sentence.text}
+          </div>
+          <div className="text-medical-gray">
+            {item.groundTruthIndex !== null ? reference[item.groundTruthIndex].sentence.text : '—'}
+          </div>
+        </div>
+      ))}
+
+      {diff.omissions.length > 0 && (
+        <div className="pt-2">
+          <h4 className="text-xs font-medium text-medical-gray uppercase mb-1">{t('diff.omittedTitle')}</h4>
+          {diff.omissions.map((index) => (
+            <div
+              key={index}
+              className="border-l-2 border-amber-500 bg-amber-500/10 pl-2 py-1 rounded-r mb-1"
+              onMouseEnter={() => onHoverSentence?.(index)}
+              onMouseLeave={() => onHoverSentence?.(null)}
+            >
+              {reference[index].sentence.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react'
+import { ChevronLeft, ChevronRight, GitCompare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ReportPanel } from '@/components/ReportPanel'
+import useReportSpanSync from '@/hooks/use-report-span-sync'
+import useReportSpanStore from '@/stores/report-spans'
+import usePreferencesStore from '@/stores/preferences'
+import useTranslation from '@/hooks/use-translation'
+import { SlotMap } from '@/lib/blinding'
+import { ErrorTag, ModelOutput, Record, ReportSectionName, ReportSpan } from '@/types'
+
+interface ReportGridProps {
+  caseId: string
+  evaluatorId: string | null
+  groundTruth: Record['groundTruth']
+  // Already in blinded order; each panel is titled "MODEL n" (reports.modelTitle)
+  // with its response's slot
+  reports: ModelOutput[]
+  slots: SlotMap
+  onHoverChange?: (responseId: string | null) => void
+  errorTags?: ErrorTag[]
+  // Section of the metric being scored, outlined in every panel
+  focusedSection?: ReportSectionName | null
+  className?: string
+}
+
+const NO_SPANS: ReportSpan[] = []
+
+// Model panels shown next to the ground truth at once. With the ground truth
+// that fills the 2×2 grid; more responses are paged.
+const PAGE_SIZE = 3
+
+const GRID_LAYOUTS = {
+  1: 'grid-cols-1 grid-rows-1',
+  2: 'grid-cols-2 grid-rows-1',
+  3: 'grid-cols-2 grid-rows-2',
+  4: 'grid-cols-2 grid-rows-2',
+}
+
+// Ground truth plus the model reports, laid out for however many responses the case has
+export const ReportGrid: React.FC<ReportGridProps> = ({
+  caseId,
+  evaluatorId,
+  groundTruth,
+  reports,
+  slots,
+  onHoverChange,
+  errorTags,
+  focusedSection,
+  className,
+}) => {
+  const { t } = useTranslation()
+  const [page, setPage] = useState(0)
+  const [linkedSentence, setLinkedSentence] = useState<number | null>(null)
+
+  const canHighlight = useReportSpanSync(caseId, evaluatorId)
+  const spans = useReportSpanStore((state) => state.items[caseId]) ?? NO_SPANS
+  const addSpan = useReportSpanStore((state) => state.addItem)
+  const removeSpan = useReportSpanStore((state) => state.removeItem)
+  const showDiff = usePreferencesStore((state) => state.showReportDiff)
+  const setShowDiff = usePreferencesStore((state) => state.setShowReportDiff)
+
+  const pageCount = Math.max(1, Math.ceil(reports.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const firstIndex = currentPage * PAGE_SIZE
+  const pageReports = reports.slice(firstIndex, firstIndex + PAGE_SIZE)
+
+  return (
+    <div className={cn('flex flex-col gap-2 min-h-0', className)}>
+      <div className="flex items-center gap-1 text-sm text-medical-gray">
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          aria-pressed={showDiff}
+          className={cn(
+            'inline-flex items-center gap-1 px-2 py-1 rounded-md nav-button',
+            showDiff && 'text-medical-light-blue'
+          )}
+          title={t('reports.diffHint')}
+        >
+          <GitCompare size={16} />
+          <span>{t('reports.diffToggle')}</span>
+        </button>
+        {showDiff && (
+          <span className="flex items-center gap-2 ml-2 text-xs">
+            <span className="border-l-2 border-green-500 pl-1">{t('diff.addition')}</span>
+            <span className="border-l-2 border-red-500 pl-1">{t('diff.contradiction')}</span>
+            <span className="border-l-2 border-amber-500 pl-1">{t('diff.omission')}</span>
+          </span>
+        )}
+
+        {pageCount > 1 && (
+          <>
+            <span className="ml-auto mr-1">
+              {t('reports.pageRange', {
+                first: firstIndex + 1,
+                last: firstIndex + pageReports.length,
+                total: reports.length,
+              })}
+            </span>
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-1 rounded-md nav-button disabled:opacity-40"
+              aria-label={t('reports.previousPage')}
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              className="p-1 rounded-md nav-button disabled:opacity-40"
+              aria-label={t('reports.nextPage')}
+            >
+              <ChevronRight size={16} />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div
+        className={cn(
+          'flex-1 min-h-0 grid gap-4',
+          GRID_LAYOUTS[pageReports.length + 1]
+        )}
+      >
+        <ReportPanel
+          isGroundTruth
+          report={groundTruth}
+          highlightedSentence={linkedSentence}
+          focusedSection={focusedSection}
+        />
+        {pageReports.map((report) => (
+          <ReportPanel
+            key={report.responseId}
+            report={report}
+            title={t('reports.modelTitle', { number: slots[report.responseId] })}
+            onHoverChange={(hovering) => onHoverChange?.(hovering ? report.responseId : null)}
+            spans={spans.filter((span) => span.responseId === report.responseId)}
+            errorTags={errorTags}
+            groundTruth={groundTruth}
+            onAddSpan={canHighlight ? (span) => addSpan(caseId, span) : undefined}
+            onRemoveSpan={canHighlight ? (spanId) => removeSpan(caseId, spanId) : undefined}
+            onLinkedSentenceChange={setLinkedSentence}
+            showDiff={showDiff}
+            focusedSection={focusedSection}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
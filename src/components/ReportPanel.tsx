@@ -1,12 +1,90 @@
-import React from 'react'
+import React, { useState } from 'react'
+import { Columns2, Trash2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { Report } from '@/types/Record'
+import { SPAN_SEVERITIES, SEVERITY_STYLES, reportSentences } from '@/lib/report-text'
+import { reportSections } from '@/lib/report-parser'
+import { DEFAULT_LANGUAGE, languageInfo, scriptClassName } from '@/lib/languages'
+import { errorTagLabel } from '@/lib/i18n'
+import { ReportSpanText, TextSelection } from '@/components/ReportSpanText'
+import { ReportDiffView } from '@/components/ReportDiffView'
+import useTranslation from '@/hooks/use-translation'
+import {
+  ErrorTag,
+  LocalizedReport,
+  ModelOutput,
+  ParsedReport,
+  ReportSectionName,
+  ReportSpan,
+  ReportTranslation,
+  SpanSeverity,
+} from '@/types'
 
 interface ReportPanelProps {
-  report: Report | { responseId: string; response: string }
+  report: LocalizedReport | ModelOutput
   className?: string
   isGroundTruth?: boolean
   title?: string
+  onHoverChange?: (hovering: boolean) => void
+  // Span highlighting, for model responses
+  spans?: ReportSpan[]
+  errorTags?: ErrorTag[]
+  groundTruth?: LocalizedReport
+  onAddSpan?: (span: ReportSpan) => void
+  onRemoveSpan?: (spanId: string) => void
+  onLinkedSentenceChange?: (sentenceIndex: number | null) => void
+  // Ground truth sentence to emphasise, numbered as in reportSentences
+  highlightedSentence?: number | null
+  // Section the focused metric is about
+  focusedSection?: ReportSectionName | null
+  // Show a model response aligned against groundTruth instead of as plain text
+  showDiff?: boolean
+}
+
+interface SpanDraft extends TextSelection {
+  section: ReportSectionName
+  errorTag: string
+  severity: SpanSeverity
+  groundTruthSentence: number | null
+}
+
+const selectClassName = 'h-7 w-full rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-xs text-foreground'
+
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+// Ground truth and response text in one language both have, so the diff
+// compares like with like: the ground truth's own language if the response
+// has it (spans link to its sentence numbers), else the language shown, else
+// English. Null when they share none.
+function diffTexts(
+  groundTruth: LocalizedReport,
+  variants: ReportTranslation[],
+  shown: string
+): { language: string; groundTruth: ParsedReport; response: ParsedReport } | null {
+  const groundTruthVariants = [{ language: groundTruth.language, sections: groundTruth }, ...groundTruth.translations]
+  const preferred = [groundTruth.language, shown, DEFAULT_LANGUAGE, ...variants.map((variant) => variant.language)]
+
+  for (const language of preferred) {
+    const reference = groundTruthVariants.find((variant) => variant.language === language)
+    const response = variants.find((variant) => variant.language === language)
+    if (reference && response) return { language, groundTruth: reference.sections, response: response.sections }
+  }
+  return null
+}
+
+// Section text with one sentence marked, if it falls in this section
+function renderSection(text: string, highlight: { start: number; end: number } | null) {
+  if (!highlight) return text
+  return (
+    <>
+      {text.slice(0, highlight.start)}
+      <mark className="text-inherit bg-medical-light-blue/30 rounded-sm">
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+      {text.slice(highlight.end)}
+    </>
+  )
 }
 
 export const ReportPanel: React.FC<ReportPanelProps> = ({
@@ -14,9 +92,154 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({
   className,
   isGroundTruth,
   title,
+  onHoverChange,
+  spans,
+  errorTags = [],
+  groundTruth,
+  onAddSpan,
+  onRemoveSpan,
+  onLinkedSentenceChange,
+  highlightedSentence = null,
+  showDiff,
+  focusedSection = null,
 }) => {
+  const { t } = useTranslation()
   // Check if report is ground truth or model output
   const isModelOutput = 'response' in report;
+  // Both variants are shown section by section
+  const sections = isModelOutput ? report.sections : report
+  const [draft, setDraft] = useState<SpanDraft | null>(null)
+  const [activeSpanId, setActiveSpanId] = useState<string | null>(null)
+  // Language variant shown on its own, or next to the original
+  const [language, setLanguage] = useState(report.language)
+  const [sideBySide, setSideBySide] = useState(false)
+
+  const variants = [
+    { language: report.language, sections },
+    ...report.translations.filter((translation) => translation.language !== report.language),
+  ]
+  const selected = variants.find((variant) => variant.language === language) || variants[0]
+  // Side by side pairs the original with English, or with the chosen translation
+  const companion = selected !== variants[0]
+    ? selected
+    : variants.find((variant) => variant.language === DEFAULT_LANGUAGE && variant !== variants[0]) || variants[1]
+  const isOriginal = selected === variants[0]
+  const diff = isModelOutput && showDiff && groundTruth ? diffTexts(groundTruth, variants, selected.language) : null
+  // Hovered diff sentences are numbered in the ground truth as written
+  const onDiffHover = diff && diff.language === groundTruth.language ? onLinkedSentenceChange : undefined
+
+  const sentences = groundTruth ? reportSentences(groundTruth) : []
+  const activeSpan = spans?.find((span) => span.id === activeSpanId) || null
+  const tagLabel = (tagId: string) => {
+    const tag = errorTags.find((candidate) => candidate.id === tagId)
+    return tag ? errorTagLabel(tag, t) : tagId
+  }
+
+  const updateDraft = (changes: Partial<SpanDraft>) => {
+    if (!draft) return
+    const next = { ...draft, ...changes }
+    setDraft(next)
+    onLinkedSentenceChange?.(next.groundTruthSentence)
+  }
+
+  const startDraft = (section: ReportSectionName, selection: TextSelection) => {
+    setActiveSpanId(null)
+    setDraft({
+      ...selection,
+      section,
+      errorTag: errorTags[0]?.id || '',
+      severity: 'minor',
+      groundTruthSentence: null,
+    })
+    onLinkedSentenceChange?.(null)
+  }
+
+  const closeDraft = () => {
+    setDraft(null)
+    onLinkedSentenceChange?.(null)
+  }
+
+  const saveDraft = () => {
+    if (!draft || !draft.errorTag || !onAddSpan) return
+    onAddSpan({
+      id: crypto.randomUUID(),
+      responseId: (report as ModelOutput).responseId,
+      section: draft.section,
+      start: draft.start,
+      end: draft.end,
+      text: draft.text,
+      errorTag: draft.errorTag,
+      severity: draft.severity,
+      groundTruthSentence: draft.groundTruthSentence,
+      createdAt: new Date().toISOString(),
+    })
+    closeDraft()
+  }
+
+  const selectSpan = (spanId: string) => {
+    setDraft(null)
+    const next = spanId === activeSpanId ? null : spanId
+    setActiveSpanId(next)
+    onLinkedSentenceChange?.(spans?.find((span) => span.id === next)?.groundTruthSentence ?? null)
+  }
+
+  const hoverSpan = (spanId: string | null) => {
+    // An open editor or selected span keeps its own link highlighted
+    if (draft || activeSpan) return
+    onLinkedSentenceChange?.(spans?.find((span) => span.id === spanId)?.groundTruthSentence ?? null)
+  }
+
+  // Offsets of the highlighted ground truth sentence within its section
+  const highlighted = !isModelOutput && highlightedSentence !== null
+    ? reportSentences(sections)[highlightedSentence] || null
+    : null
+
+  // Span highlights and ground truth links refer to the original text only
+  const renderSectionText = (section: ReportSectionName, text: string, interactive: boolean) => {
+    if (!interactive) {
+      return <p className="text-sm whitespace-pre-wrap">{text}</p>
+    }
+    if (isModelOutput && spans) {
+      return (
+        <ReportSpanText
+          text={text}
+          spans={spans.filter((span) => span.section === section)}
+          activeSpanId={activeSpanId}
+          pendingSelection={draft?.section === section ? draft : null}
+          onSelectText={onAddSpan ? (selection) => startDraft(section, selection) : undefined}
+          onSpanClick={selectSpan}
+          onSpanHover={hoverSpan}
+        />
+      )
+    }
+    return (
+      <p className="text-sm whitespace-pre-wrap">
+        {renderSection(text, highlighted?.section === section ? highlighted.sentence : null)}
+      </p>
+    )
+  }
+
+  const renderVariant = (variant: { language: string; sections: ParsedReport }, interactive: boolean) => {
+    const info = languageInfo(variant.language)
+    return (
+      <div lang={info.code} dir={info.direction} className={cn('space-y-4', scriptClassName(variant.language))}>
+        {reportSections(variant.sections).map((section) => (
+          <div
+            key={section.name}
+            className={cn(
+              'rounded-sm transition-shadow',
+              focusedSection === section.name && 'ring-1 ring-medical-light-blue/60 ring-offset-4 ring-offset-transparent'
+            )}
+          >
+            <h3 className="text-sm font-medium text-medical-gray uppercase mb-1" dir="ltr">
+              {t(`sections.${section.name}`)}:
+            </h3>
+            {renderSectionText(section.name, section.text, interactive)}
+          </div>
+        ))}
+      </div>
+    )
+  }
 
   return (
     <div
@@ -27,44 +250,158 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({
           : 'border-medical-dark-gray/30 bg-medical-dark-gray/30',
         className
       )}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
     >
       <div
         className={cn(
-          'p-3 font-medium border-b text-lg',
+          'p-3 font-medium border-b text-lg flex items-center gap-2',
           isGroundTruth
             ? 'bg-medical-blue text-white border-medical-blue/50'
             : 'bg-medical-dark-gray/50 border-medical-dark-gray/30'
         )}
       >
-        {isGroundTruth ? 'Ground Truth' : title}
+        <span className="flex-1">{isGroundTruth ? t('reports.groundTruth') : title}</span>
+        {variants.length > 1 && (
+          <>
+            <select
+              value={selected.language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="h-7 rounded bg-medical-dark-gray border border-medical-dark-gray/30 text-xs text-foreground font-normal"
+              aria-label={t('reports.language')}
+            >
+              {variants.map((variant, index) => {
+                const info = languageInfo(variant.language)
+                return (
+                  <option key={variant.language} value={variant.language}>
+                    {index === 0 ? t('reports.original', { language: info.nativeName }) : info.nativeName}
+                  </option>
+                )
+              })}
+            </select>
+            <button
+              onClick={() => setSideBySide(!sideBySide)}
+              aria-pressed={sideBySide}
+              className={cn('p-1 rounded-md nav-button', sideBySide ? 'text-medical-light-blue' : 'opacity-70')}
+              title={t('reports.sideBySide')}
+            >
+              <Columns2 size={16} />
+            </button>
+          </>
+        )}
       </div>
 
       <div className="flex-1 p-4 overflow-y-auto report-panel space-y-4">
-        {isModelOutput ? (
-          <div>
-            <h3 className="text-sm font-medium text-medical-gray uppercase mb-1">
-              RESPONSE:
-            </h3>
-            <p className="text-sm">{(report as { response: string }).response}</p>
+        {isModelOutput && showDiff && groundTruth && !diff && (
+          <p className="text-xs text-medical-gray">{t('reports.diffUnavailable')}</p>
+        )}
+        {diff ? (
+          <ReportDiffView
+            groundTruth={diff.groundTruth}
+            response={diff.response}
+            onHoverSentence={onDiffHover}
+          />
+        ) : sideBySide && companion ? (
+          <div className="grid grid-cols-2 gap-4">
+            {renderVariant(variants[0], true)}
+            {renderVariant(companion, false)}
           </div>
         ) : (
-          <>
-            <div>
-              <h3 className="text-sm font-medium text-medical-gray uppercase mb-1">
-                FINDINGS:
-              </h3>
-              <p className="text-sm">{(report as Report).findings}</p>
-            </div>
-
-            <div>
-              <h3 className="text-sm font-medium text-medical-gray uppercase mb-1">
-                IMPRESSION:
-              </h3>
-              <p className="text-sm">{(report as Report).impressions}</p>
-            </div>
-          </>
+          renderVariant(selected, isOriginal)
         )}
       </div>
+
+      {draft && (
+        <div className="border-t border-medical-dark-gray/30 p-3 space-y-2 text-xs">
+          <p className="text-medical-gray truncate">
+            {t('reports.marking')} <span className="text-foreground">“{truncate(draft.text)}”</span>
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={draft.errorTag}
+              onChange={(e) => updateDraft({ errorTag: e.target.value })}
+              className={selectClassName}
+              aria-label={t('reports.errorCategory')}
+            >
+              {errorTags.map((tag) => (
+                <option key={tag.id} value={tag.id}>{errorTagLabel(tag, t)}</option>
+              ))}
+            </select>
+            <select
+              value={draft.groundTruthSentence ?? ''}
+              onChange={(e) =>
+                updateDraft({ groundTruthSentence: e.target.value === '' ? null : Number(e.target.value) })
+              }
+              className={selectClassName}
+              aria-label={t('reports.groundTruthSentence')}
+            >
+              <option value="">{t('reports.noGroundTruthSentence')}</option>
+              {sentences.map(({ sentence }, index) => (
+                <option key={index} value={index}>
+                  {index + 1}. {truncate(sentence.text, 50)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-1">
+            {SPAN_SEVERITIES.map((severity) => (
+              <button
+                key={severity}
+                onClick={() => updateDraft({ severity })}
+                aria-pressed={draft.severity === severity}
+                className={cn(
+                  'px-2 py-0.5 rounded-full border underline decoration-2',
+                  SEVERITY_STYLES[severity],
+                  draft.severity === severity ? 'border-white/70' : 'border-transparent opacity-60'
+                )}
+              >
+                {t(`severity.${severity}`)}
+              </button>
+            ))}
+            <div className="ml-auto flex gap-1">
+              <button onClick={closeDraft} className="px-2 py-0.5 rounded-md nav-button">
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={!draft.errorTag}
+                className="px-2 py-0.5 rounded-md bg-medical-blue text-white disabled:opacity-50"
+              >
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {activeSpan && !draft && (
+        <div className="border-t border-medical-dark-gray/30 p-3 space-y-1 text-xs">
+          <div className="flex items-center gap-2">
+            <span className={cn('px-2 py-0.5 rounded-full', SEVERITY_STYLES[activeSpan.severity])}>
+              {t(`severity.${activeSpan.severity}`)}
+            </span>
+            <span className="font-medium">{tagLabel(activeSpan.errorTag)}</span>
+            {onRemoveSpan && (
+              <button
+                onClick={() => {
+                  onRemoveSpan(activeSpan.id)
+                  setActiveSpanId(null)
+                  onLinkedSentenceChange?.(null)
+                }}
+                className="ml-auto p-1 rounded-md nav-button text-medical-gray hover:text-red-400"
+                aria-label={t('reports.removeHighlight')}
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+          <p className="text-medical-gray">
+            {activeSpan.groundTruthSentence !== null && sentences[activeSpan.groundTruthSentence]
+              ? t('reports.linkedTo', { sentence: truncate(sentences[activeSpan.groundTruthSentence].sentence.text) })
+              : t('reports.notLinked')}
+          </p>
+        </div>
+      )}
     </div>
   )
 }
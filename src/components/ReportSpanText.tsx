@@ -0,0 +1,134 @@
+import React, { useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { SEVERITY_RANK, SEVERITY_STYLES } from '@/lib/report-text'
+import { ReportSpan } from '@/types'
+
+export interface TextSelection {
+  start: number
+  end: number
+  text: string
+}
+
+interface ReportSpanTextProps {
+  text: string
+  spans: ReportSpan[]
+  activeSpanId?: string | null
+  pendingSelection?: TextSelection | null
+  onSelectText?: (selection: TextSelection) => void
+  onSpanClick?: (spanId: string) => void
+  onSpanHover?: (spanId: string | null) => void
+}
+
+interface Segment {
+  start: number
+  end: number
+  spans: ReportSpan[]
+}
+
+// Cuts the text at every span boundary so overlapping spans can be drawn
+// without nesting marks
+function segmentText(text: string, spans: ReportSpan[], pending?: TextSelection | null): Segment[] {
+  const ranges = pending ? [...spans, { start: pending.start, end: pending.end }] : spans
+  const boundaries = new Set([0, text.length])
+  ranges.forEach((range) => {
+    boundaries.add(Math.max(0, Math.min(range.start, text.length)))
+    boundaries.add(Math.max(0, Math.min(range.end, text.length)))
+  })
+  const points = [...boundaries].sort((a, b) => a - b)
+
+  const segments: Segment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    if (start === end) continue
+    segments.push({
+      start,
+      end,
+      spans: spans.filter((span) => span.start <= start && span.end >= end),
+    })
+  }
+  return segments
+}
+
+// Character offset of a DOM position, counted from the start of the container's text
+function textOffset(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange()
+  range.selectNodeContents(container)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
+
+// Report text with the evaluator's highlighted spans. Selecting text reports
+// the character range so the panel can turn it into a new span.
+export const ReportSpanText: React.FC<ReportSpanTextProps> = ({
+  text,
+  spans,
+  activeSpanId,
+  pendingSelection,
+  onSelectText,
+  onSpanClick,
+  onSpanHover,
+}) => {
+  const containerRef = useRef<HTMLParagraphElement>(null)
+
+  const handleMouseUp = () => {
+    const container = containerRef.current
+    const selection = window.getSelection()
+    if (!container || !onSelectText || !selection || selection.isCollapsed || selection.rangeCount === 0) return
+
+    const range = selection.getRangeAt(0)
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return
+
+    let start = textOffset(container, range.startContainer, range.startOffset)
+    let end = textOffset(container, range.endContainer, range.endOffset)
+    // Drop the whitespace a double-click or sloppy drag picks up
+    while (start < end && /\s/.test(text[start])) start++
+    while (end > start && /\s/.test(text[end - 1])) end--
+    if (start === end) return
+
+    onSelectText({ start, end, text: text.slice(start, end) })
+    selection.removeAllRanges()
+  }
+
+  return (
+    <p ref={containerRef} className="text-sm whitespace-pre-wrap" onMouseUp={handleMouseUp}>
+      {segmentText(text, spans, pendingSelection).map((segment) => {
+        const content = text.slice(segment.start, segment.end)
+        const isPending =
+          !!pendingSelection && pendingSelection.start <= segment.start && pendingSelection.end >= segment.end
+
+        if (segment.spans.length === 0) {
+          return isPending ? (
+            <span key={segment.start} className="bg-medical-blue/40">{content}</span>
+          ) : (
+            <React.Fragment key={segment.start}>{content}</React.Fragment>
+          )
+        }
+
+        // The most severe span decides the colour; the innermost one gets the click
+        const top = [...segment.spans].sort(
+          (a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+        )[0]
+        const innermost = [...segment.spans].sort((a, b) => (a.end - a.start) - (b.end - b.start))[0]
+        const isActive = segment.spans.some((span) => span.id === activeSpanId)
+
+        return (
+          <mark
+            key={segment.start}
+            className={cn(
+              'text-inherit rounded-sm cursor-pointer underline decoration-2 underline-offset-2',
+              SEVERITY_STYLES[top.severity],
+              isActive && 'ring-1 ring-white/70',
+              isPending && 'bg-medical-blue/40'
+            )}
+            onClick={() => onSpanClick?.(innermost.id)}
+            onMouseEnter={() => onSpanHover?.(innermost.id)}
+            onMouseLeave={() => onSpanHover?.(null)}
+          >
+            {content}
+          </mark>
+        )
+      })}
+    </p>
+  )
+}
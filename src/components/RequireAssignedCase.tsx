@@ -0,0 +1,35 @@
+import React from 'react'
+import { useParams } from 'react-router-dom'
+import { useAssignedCases } from '@/services/queries'
+import useSessionStore from '@/stores/session'
+import useTranslation from '@/hooks/use-translation'
+import { QueryError, QueryLoading } from '@/components/QueryState'
+import Forbidden from '@/pages/Forbidden'
+
+interface RequireAssignedCaseProps {
+  children: React.ReactNode
+}
+
+// Renders a case page only if the case (the :radId route param) is in the
+// signed-in evaluator's case list. The list is the cached query the case list
+// page uses, so moving between cases with prev / next doesn't wait on it again.
+export const RequireAssignedCase: React.FC<RequireAssignedCaseProps> = ({ children }) => {
+  const { radId } = useParams()
+  const evaluatorId = useSessionStore((state) => state.user?.id ?? null)
+  const { data, error, refetch } = useAssignedCases(evaluatorId)
+  const { t } = useTranslation()
+
+  if (error) {
+    return <QueryError fullScreen message={t('forbidden.assignmentError')} error={error} onRetry={() => refetch()} />
+  }
+
+  if (!data) {
+    return <QueryLoading fullScreen message={t('forbidden.checkingAssignment')} />
+  }
+
+  if (!radId || !data.cases.some((item) => item.id === radId)) {
+    return <Forbidden message={t('forbidden.caseNotAssigned')} />
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react'
+import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import { useCurrentUser } from '@/services/queries'
+import useSessionStore from '@/stores/session'
+
+// Layout route for pages that need a session. Without one, including after
+// the backend rejects the token, sends the user to login and back afterwards.
+export const RequireAuth: React.FC = () => {
+  const token = useSessionStore((state) => state.token)
+  const user = useSessionStore((state) => state.user)
+  const setUser = useSessionStore((state) => state.setUser)
+  const location = useLocation()
+
+  // Check a session restored from storage is still valid and pick up
+  // changes to the user's name or role. A 401 clears the session in the API
+  // client; other errors keep it.
+  const { data: currentUser } = useCurrentUser(!!token)
+
+  useEffect(() => {
+    if (currentUser) setUser(currentUser)
+  }, [currentUser, setUser])
+
+  if (!token || !user) {
+    return <Navigate to="/" replace state={{ from: `${location.pathname}${location.search}` }} />
+  }
+
+  return <Outlet />
+}
@@ -0,0 +1,21 @@
+import React from 'react'
+import { Outlet } from 'react-router-dom'
+import { hasRole } from '@/lib/auth'
+import useSessionStore from '@/stores/session'
+import Forbidden from '@/pages/Forbidden'
+import { UserRole } from '@/types'
+
+interface RequireRoleProps {
+  roles: UserRole[]
+}
+
+// Layout route, nested in RequireAuth, for pages only some roles may open
+export const RequireRole: React.FC<RequireRoleProps> = ({ roles }) => {
+  const user = useSessionStore((state) => state.user)
+
+  if (!hasRole(user, roles)) {
+    return <Forbidden />
+  }
+
+  return <Outlet />
+}
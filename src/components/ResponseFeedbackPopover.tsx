@@ -0,0 +1,100 @@
+import React from 'react'
+import { MessageSquare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { errorTagLabel } from '@/lib/i18n'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Textarea } from '@/components/ui/textarea'
+import useTranslation from '@/hooks/use-translation'
+import { ErrorTag } from '@/types'
+
+export type FeedbackSaveStatus = 'saving' | 'saved' | 'error'
+
+interface ResponseFeedbackPopoverProps {
+  modelName: string
+  comment: string
+  selectedTags: string[]
+  availableTags: ErrorTag[]
+  onChange: (feedback: { comment?: string; errorTags?: string[] }) => void
+  status?: FeedbackSaveStatus
+  disabled?: boolean
+}
+
+// Comment box and error-tag picker for one model response. The trigger shows
+// how many tags are set so the score table stays compact.
+export const ResponseFeedbackPopover: React.FC<ResponseFeedbackPopoverProps> = ({
+  modelName,
+  comment,
+  selectedTags,
+  availableTags,
+  onChange,
+  status,
+  disabled,
+}) => {
+  const { t } = useTranslation()
+  const hasFeedback = !!comment || selectedTags.length > 0
+
+  const toggleTag = (tagId: string) => {
+    onChange({
+      errorTags: selectedTags.includes(tagId)
+        ? selectedTags.filter((id) => id !== tagId)
+        : [...selectedTags, tagId],
+    })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className={cn(
+            'inline-flex items-center gap-1 px-2 h-8 rounded-md nav-button text-xs disabled:opacity-50',
+            hasFeedback ? 'text-medical-light-blue' : 'text-medical-gray'
+          )}
+          aria-label={t('feedback.trigger', { model: modelName })}
+        >
+          <MessageSquare size={16} />
+          {selectedTags.length > 0 && <span>{selectedTags.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-medium">{modelName}</h3>
+          {status && (
+            <span className={cn('text-xs', status === 'error' ? 'text-red-500' : 'text-medical-gray')}>
+              {status === 'error' ? t('feedback.keptLocally') : t(`saveStatus.${status}`)}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {availableTags.map((tag) => {
+            const isSelected = selectedTags.includes(tag.id)
+            return (
+              <button
+                key={tag.id}
+                onClick={() => toggleTag(tag.id)}
+                title={tag.description}
+                aria-pressed={isSelected}
+                className={cn(
+                  'px-2 py-0.5 rounded-full border text-xs transition-colors',
+                  isSelected
+                    ? 'bg-red-500/20 border-red-500/60 text-red-400'
+                    : 'border-medical-dark-gray/50 text-medical-gray hover:text-foreground'
+                )}
+              >
+                {errorTagLabel(tag, t)}
+              </button>
+            )
+          })}
+        </div>
+
+        <Textarea
+          value={comment}
+          onChange={(e) => onChange({ comment: e.target.value })}
+          placeholder={t('feedback.placeholder')}
+          className="text-sm"
+        />
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import useAuth from '@/hooks/use-auth'
+import useTranslation from '@/hooks/use-translation'
+
+interface SignOutButtonProps {
+  className?: string
+}
+
+// Signs out, but asks first while scores are still waiting to be sent:
+// signing out deletes them and the local drafts from this browser
+export const SignOutButton: React.FC<SignOutButtonProps> = ({ className }) => {
+  const { t } = useTranslation()
+  const { signOut, countUnsent } = useAuth()
+  const [checking, setChecking] = useState(false)
+  const [unsent, setUnsent] = useState(0)
+
+  const handleClick = async () => {
+    setChecking(true)
+    try {
+      const count = await countUnsent()
+      if (count > 0) {
+        setUnsent(count)
+      } else {
+        await signOut()
+      }
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleClick} disabled={checking} className={className}>
+        {checking ? t('signOut.sending') : t('common.signOut')}
+      </Button>
+      <AlertDialog open={unsent > 0} onOpenChange={(open) => !open && setUnsent(0)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('signOut.unsentTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('signOut.unsent', { count: unsent })}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('signOut.stay')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={signOut}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('signOut.discard')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
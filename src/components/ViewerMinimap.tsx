@@ -0,0 +1,68 @@
+import React, { useEffect, useRef } from 'react'
+import { Region } from '@/lib/viewport'
+import useTranslation from '@/hooks/use-translation'
+
+const MINIMAP_WIDTH = 112
+
+interface ViewerMinimapProps {
+  source: HTMLCanvasElement | null
+  // Bumped by the parent whenever the source canvas is repainted
+  version: number
+  region: Region
+  onNavigate: (centerX: number, centerY: number) => void
+}
+
+export const ViewerMinimap: React.FC<ViewerMinimapProps> = ({
+  source,
+  version,
+  region,
+  onNavigate,
+}) => {
+  const { t } = useTranslation()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !source || !source.width) return
+
+    canvas.width = MINIMAP_WIDTH
+    canvas.height = Math.round((source.height / source.width) * MINIMAP_WIDTH)
+    const ctx = canvas.getContext('2d')
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  }, [source, version])
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onNavigate(
+      (e.clientX - rect.left) / rect.width,
+      (e.clientY - rect.top) / rect.height
+    )
+  }
+
+  return (
+    <div
+      className="absolute bottom-2 right-2 border border-medical-gray/50 bg-black/70 rounded cursor-pointer touch-none"
+      style={{ width: MINIMAP_WIDTH }}
+      onPointerDown={(e) => {
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        navigate(e)
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e)
+      }}
+      aria-label={t('viewer.overview')}
+    >
+      <canvas ref={canvasRef} className="block w-full h-auto" />
+      <div
+        className="absolute border-2 border-medical-blue pointer-events-none"
+        style={{
+          left: `${region.x * 100}%`,
+          top: `${region.y * 100}%`,
+          width: `${region.width * 100}%`,
+          height: `${region.height * 100}%`,
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { DisplaySettings, GrayImage, renderGrayImage } from '@/lib/imaging'
+
+interface XrayCanvasProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  image: GrayImage
+  settings: DisplaySettings
+  onRender?: (canvas: HTMLCanvasElement) => void
+}
+
+export const XrayCanvas: React.FC<XrayCanvasProps> = ({
+  image,
+  settings,
+  onRender,
+  className,
+  ...props
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const onRenderRef = useRef(onRender)
+  onRenderRef.current = onRender
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    if (canvas.width !== image.width || canvas.height !== image.height) {
+      canvas.width = image.width
+      canvas.height = image.height
+    }
+    const ctx = canvas.getContext('2d')
+    const imageData = ctx.createImageData(image.width, image.height)
+    renderGrayImage(image, settings, imageData)
+    ctx.putImageData(imageData, 0, 0)
+    onRenderRef.current?.(canvas)
+  }, [image, settings])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn('max-w-full max-h-full object-contain', className)}
+      {...props}
+    />
+  )
+}
@@ -0,0 +1,109 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+import { XrayViewport, ViewerTool, ImagePointerPhase } from '@/components/XrayViewport'
+import { XrayImageState } from '@/hooks/use-xray-image'
+import useTranslation from '@/hooks/use-translation'
+import { Size } from '@/lib/viewport'
+import { AnnotationPoint } from '@/types'
+
+interface XrayPaneProps {
+  xray: XrayImageState
+  displayKey: string
+  viewportKey: string
+  tool: ViewerTool
+  showHeader: boolean
+  label?: string
+  className?: string
+  onResize?: (size: Size) => void
+  onImagePointer?: (phase: ImagePointerPhase, point: AnnotationPoint) => void
+  renderOverlay?: (scale: number) => React.ReactNode
+}
+
+// One image area of the viewer: the interactive canvas, or a fallback while
+// loading / when the pixels can't be processed
+export const XrayPane: React.FC<XrayPaneProps> = ({
+  xray,
+  displayKey,
+  viewportKey,
+  tool,
+  showHeader,
+  label,
+  className,
+  onResize,
+  onImagePointer,
+  renderOverlay,
+}) => {
+  const { t } = useTranslation()
+  const { image, header } = xray
+
+  const renderContent = () => {
+    if (image) {
+      return (
+        <>
+          <XrayViewport
+            displayKey={displayKey}
+            viewportKey={viewportKey}
+            image={image}
+            tool={tool}
+            onResize={onResize}
+            onImagePointer={onImagePointer}
+            renderOverlay={renderOverlay}
+          />
+          {showHeader && header && (
+            <dl className="absolute top-2 left-2 grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5 rounded bg-black/70 px-3 py-2 text-xs pointer-events-none">
+              {[
+                [t('viewer.header.modality'), header.modality],
+                [t('viewer.header.view'), header.viewPosition],
+                [t('viewer.header.studyDate'), header.studyDate],
+                [t('viewer.header.bodyPart'), header.bodyPart],
+                [t('viewer.header.size'), t('viewer.header.sizeValue', {
+                  columns: header.columns,
+                  rows: header.rows,
+                  bits: header.bitsStored,
+                })],
+                [t('viewer.header.photometric'), header.photometricInterpretation],
+                [t('viewer.header.syntax'), header.transferSyntax],
+              ].map(([name, value]) => (
+                <React.Fragment key={name}>
+                  <dt className="text-medical-gray">{name}</dt>
+                  <dd>{value || '—'}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+        </>
+      )
+    }
+
+    if (xray.decodeError) {
+      return (
+        <p className="px-4 text-sm text-center text-red-500">
+          {t(`viewer.decodeErrors.${xray.decodeError.reason}`, { detail: xray.decodeError.detail ?? '' })}
+        </p>
+      )
+    }
+
+    if (xray.canvasUnavailable && xray.url) {
+      return (
+        <img
+          src={xray.url}
+          alt={t('viewer.image')}
+          className="max-w-full max-h-full object-contain"
+        />
+      )
+    }
+
+    return <p className="text-sm text-medical-gray animate-pulse">{t('viewer.loading')}</p>
+  }
+
+  return (
+    <div className={cn('relative flex-1 flex items-center justify-center overflow-hidden', className)}>
+      {renderContent()}
+      {label && (
+        <span className="absolute bottom-2 left-2 rounded bg-black/70 px-2 py-0.5 text-xs pointer-events-none">
+          {label}
+        </span>
+      )}
+    </div>
+  )
+}
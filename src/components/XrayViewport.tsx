@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { XrayCanvas } from '@/components/XrayCanvas'
+import { ViewerMinimap } from '@/components/ViewerMinimap'
+import useViewerStore from '@/stores/viewer'
+import useTranslation from '@/hooks/use-translation'
+import { AnnotationPoint, AnnotationType } from '@/types'
+import {
+  GrayImage,
+  DisplaySettings,
+  applyWindowDrag,
+  defaultDisplaySettings,
+} from '@/lib/imaging'
+import {
+  DEFAULT_VIEWPORT,
+  Size,
+  Viewport,
+  fitViewport,
+  imageOffset,
+  panBy,
+  visibleRegion,
+  zoomAt,
+} from '@/lib/viewport'
+
+export type ViewerTool = 'pan' | 'window' | AnnotationType
+
+export type ImagePointerPhase = 'down' | 'move' | 'up'
+
+interface XrayViewportProps {
+  // Store keys: window/level is per image, the viewport may be shared to keep panes in sync
+  displayKey: string
+  viewportKey: string
+  image: GrayImage
+  tool: ViewerTool
+  className?: string
+  onResize?: (size: Size) => void
+  // Receives left-button input in image coordinates while an annotation tool is active
+  onImagePointer?: (phase: ImagePointerPhase, point: AnnotationPoint) => void
+  // Drawn above the image with the same transform
+  renderOverlay?: (scale: number) => React.ReactNode
+}
+
+type DragState = {
+  mode: 'pan' | 'window' | 'annotate'
+  originX: number
+  originY: number
+  lastX: number
+  lastY: number
+  startDisplay: DisplaySettings
+}
+
+export const XrayViewport: React.FC<XrayViewportProps> = ({
+  displayKey,
+  viewportKey,
+  image,
+  tool,
+  className,
+  onResize,
+  onImagePointer,
+  renderOverlay,
+}) => {
+  const { t } = useTranslation()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 })
+  const [renderedCanvas, setRenderedCanvas] = useState<HTMLCanvasElement | null>(null)
+  const [renderVersion, setRenderVersion] = useState(0)
+
+  const storedDisplay = useViewerStore((state) => state.display[displayKey])
+  const storedViewport = useViewerStore((state) => state.viewport[viewportKey])
+  const setDisplay = useViewerStore((state) => state.setDisplay)
+  const setViewport = useViewerStore((state) => state.setViewport)
+
+  const settings = storedDisplay ?? defaultDisplaySettings(image)
+  const viewport = storedViewport ?? DEFAULT_VIEWPORT
+
+  const onResizeRef = useRef(onResize)
+  onResizeRef.current = onResize
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const next = { width: entry.contentRect.width, height: entry.contentRect.height }
+      setSize(next)
+      onResizeRef.current?.(next)
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Always read the latest viewport from the store so rapid events don't use stale state
+  const currentViewport = (): Viewport =>
+    useViewerStore.getState().viewport[viewportKey] ?? DEFAULT_VIEWPORT
+
+  // Registered manually: React's onWheel is passive and can't prevent page scrolling
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = container.getBoundingClientRect()
+      const containerSize = { width: rect.width, height: rect.height }
+      // Trackpad pinch arrives as a wheel event with ctrlKey set and small deltas
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015))
+      const latest = useViewerStore.getState().viewport[viewportKey] ?? DEFAULT_VIEWPORT
+      setViewport(
+        viewportKey,
+        zoomAt(latest, containerSize, image, factor, {
+          x: e.clientX - rect.left,
+          y: e.clientY - rect.top,
+        })
+      )
+    }
+
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    return () => container.removeEventListener('wheel', handleWheel)
+  }, [viewportKey, image, setViewport])
+
+  const toImagePoint = (e: React.PointerEvent<HTMLDivElement>): AnnotationPoint => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const offset = imageOffset(currentViewport(), size, image)
+    return {
+      x: (e.clientX - rect.left - offset.x) / offset.scale,
+      y: (e.clientY - rect.top - offset.y) / offset.scale,
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Middle button always pans, left button uses the active tool
+    if (e.button !== 0 && e.button !== 1) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+
+    const isAnnotating = e.button === 0 && tool !== 'pan' && tool !== 'window'
+    if (isAnnotating) onImagePointer?.('down', toImagePoint(e))
+
+    dragRef.current = {
+      mode: e.button === 1 ? 'pan' : isAnnotating ? 'annotate' : tool as 'pan' | 'window',
+      originX: e.clientX,
+      originY: e.clientY,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      startDisplay: settings,
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    if (drag.mode === 'annotate') {
+      onImagePointer?.('move', toImagePoint(e))
+    } else if (drag.mode === 'pan') {
+      setViewport(
+        viewportKey,
+        panBy(currentViewport(), size, image, e.clientX - drag.lastX, e.clientY - drag.lastY)
+      )
+    } else {
+      setDisplay(
+        displayKey,
+        applyWindowDrag(image, drag.startDisplay, e.clientX - drag.originX, e.clientY - drag.originY)
+      )
+    }
+    drag.lastX = e.clientX
+    drag.lastY = e.clientY
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.mode === 'annotate') {
+      onImagePointer?.('up', toImagePoint(e))
+    }
+    dragRef.current = null
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+  }
+
+  const { x, y, scale } = imageOffset(viewport, size, image)
+  const region = visibleRegion(viewport, size, image)
+  const showMinimap = size.width > 0 && (region.width < 0.999 || region.height < 0.999)
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        'absolute inset-0 overflow-hidden touch-none select-none',
+        tool === 'pan' ? 'cursor-grab' : 'cursor-crosshair',
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setViewport(viewportKey, fitViewport('contain', viewport))}
+    >
+      {size.width > 0 && (
+        <div
+          className="absolute left-0 top-0"
+          style={{
+            width: image.width,
+            height: image.height,
+            transform: `translate(${x}px, ${y}px) scale(${scale})`,
+            transformOrigin: '0 0',
+          }}
+        >
+          <XrayCanvas
+            image={image}
+            settings={settings}
+            onRender={(canvas) => {
+              setRenderedCanvas(canvas)
+              setRenderVersion((v) => v + 1)
+            }}
+            className="block w-full h-full max-w-none max-h-none"
+            style={{ imageRendering: scale >= 2 ? 'pixelated' : 'auto' }}
+            aria-label={t('viewer.image')}
+          />
+          {renderOverlay?.(scale)}
+        </div>
+      )}
+
+      {showMinimap && (
+        <ViewerMinimap
+          source={renderedCanvas}
+          version={renderVersion}
+          region={region}
+          onNavigate={(centerX, centerY) =>
+            setViewport(viewportKey, { ...panBy(viewport, size, image, 0, 0), centerX, centerY })
+          }
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react'
+import { Annotation, AnnotationPoint, AnnotationType } from '@/types'
+import { ImagePointerPhase, ViewerTool } from '@/components/XrayViewport'
+import useAnnotationStore from '@/stores/annotations'
+
+const ANNOTATION_TYPES: AnnotationType[] = ['box', 'polygon', 'arrow', 'ruler', 'text']
+
+// Shapes smaller than this (in image pixels) are treated as accidental clicks
+const MIN_SIZE = 3
+
+interface AnnotationDraftOptions {
+  caseId: string
+  imageIndex: number
+  tool: ViewerTool
+  responseId: string | null
+  metricId: string | null
+  onCreated?: (annotation: Annotation) => void
+}
+
+export function isAnnotationTool(tool: ViewerTool): tool is AnnotationType {
+  return ANNOTATION_TYPES.includes(tool as AnnotationType)
+}
+
+const distance = (a: AnnotationPoint, b: AnnotationPoint) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// Turns pointer input from the viewer into a shape being drawn, and commits it
+// to the annotation store when the pointer is released
+function useAnnotationDraft({
+  caseId,
+  imageIndex,
+  tool,
+  responseId,
+  metricId,
+  onCreated,
+}: AnnotationDraftOptions) {
+  const [draft, setDraft] = useState<Annotation | null>(null)
+  const draftRef = useRef<Annotation | null>(null)
+  const addAnnotation = useAnnotationStore((state) => state.addItem)
+
+  const updateDraft = (next: Annotation | null) => {
+    draftRef.current = next
+    setDraft(next)
+  }
+
+  const commit = (annotation: Annotation) => {
+    addAnnotation(caseId, annotation)
+    onCreated?.(annotation)
+  }
+
+  const handleImagePointer = (phase: ImagePointerPhase, point: AnnotationPoint) => {
+    if (!isAnnotationTool(tool)) return
+    const current = draftRef.current
+
+    if (phase === 'down') {
+      const annotation: Annotation = {
+        id: crypto.randomUUID(),
+        imageIndex,
+        type: tool,
+        points: tool === 'polygon' || tool === 'text' ? [point] : [point, point],
+        text: tool === 'text' ? '' : undefined,
+        responseId,
+        metricId,
+        createdAt: new Date().toISOString(),
+      }
+
+      // Text labels are placed with a single click and named afterwards
+      if (tool === 'text') {
+        commit(annotation)
+      } else {
+        updateDraft(annotation)
+      }
+      return
+    }
+
+    if (!current) return
+
+    if (phase === 'move') {
+      if (current.type === 'polygon') {
+        const last = current.points[current.points.length - 1]
+        if (distance(last, point) >= 2) {
+          updateDraft({ ...current, points: [...current.points, point] })
+        }
+      } else {
+        updateDraft({ ...current, points: [current.points[0], point] })
+      }
+      return
+    }
+
+    updateDraft(null)
+    const isValid = current.type === 'polygon'
+      ? current.points.length >= 3
+      : distance(current.points[0], point) >= MIN_SIZE
+    if (isValid) {
+      commit(current.type === 'polygon' ? current : { ...current, points: [current.points[0], point] })
+    }
+  }
+
+  return { draft, handleImagePointer }
+}
+
+export default useAnnotationDraft
@@ -0,0 +1,18 @@
+import { saveAnnotations } from '@/services'
+import { queryKeys, useCaseAnnotations } from '@/services/queries'
+import useAnnotationStore from '@/stores/annotations'
+import useCaseItemSync from '@/hooks/use-case-item-sync'
+
+// Loads the evaluator's annotations for a case and saves local edits back,
+// see useCaseItemSync
+function useAnnotationSync(caseId: string, evaluatorId: string | null) {
+  const query = useCaseAnnotations(caseId, evaluatorId)
+  return useCaseItemSync(caseId, evaluatorId, query, {
+    store: useAnnotationStore,
+    queryKey: queryKeys.caseAnnotations,
+    save: saveAnnotations,
+    name: 'annotations',
+  })
+}
+
+export default useAnnotationSync
@@ -0,0 +1,63 @@
+import { useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { login, logout } from '@/services'
+import { queryClient } from '@/lib/query-client'
+import { clearOutbox, countUnsentUpdates, flushOutbox } from '@/lib/outbox'
+import { clearDrafts } from '@/lib/evaluation-drafts'
+import useSessionStore from '@/stores/session'
+import useEvalutationStore from '@/stores/evaluation'
+
+// The signed-in user and the actions that change who that is
+function useAuth() {
+  const user = useSessionStore((state) => state.user)
+  const sessionExpired = useSessionStore((state) => state.expired)
+  const setSession = useSessionStore((state) => state.setSession)
+  const clearSession = useSessionStore((state) => state.clearSession)
+  const navigate = useNavigate()
+
+  const signIn = useCallback(
+    async (username: string, password: string) => {
+      const session = await login(username, password)
+      // Cached data may belong to the previous user, e.g. after a session expired
+      queryClient.clear()
+      setSession(session.token, session.user)
+      return session.user
+    },
+    [setSession]
+  )
+
+  // Sends queued scores while the token is still valid and counts the ones
+  // left, which signing out would drop; see SignOutButton
+  const countUnsent = useCallback(async () => {
+    const evaluatorId = useSessionStore.getState().user?.id
+    if (!evaluatorId) return 0
+    await flushOutbox().catch(() => {})
+    return countUnsentUpdates(evaluatorId)
+  }, [])
+
+  const signOut = useCallback(async () => {
+    const evaluatorId = useSessionStore.getState().user?.id
+    if (evaluatorId) {
+      // Last chance to send queued scores; whatever is left is dropped with
+      // the drafts so the next user of this browser can't see or send them.
+      // Callers confirm that first when countUnsent finds any.
+      await flushOutbox().catch(() => {})
+      await Promise.all([clearOutbox(evaluatorId), clearDrafts(evaluatorId)])
+    }
+    try {
+      await logout()
+    } catch (error) {
+      // The token is dropped locally either way
+    }
+    clearSession()
+    queryClient.clear()
+    useEvalutationStore.getState().init({})
+    // In the same tick as clearing the session, so RequireAuth doesn't offer
+    // to bring the next user back to this page
+    navigate('/', { replace: true })
+  }, [clearSession, navigate])
+
+  return { user, sessionExpired, signIn, signOut, countUnsent }
+}
+
+export default useAuth
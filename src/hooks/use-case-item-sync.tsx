@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react'
+import { QueryKey, UseQueryResult } from '@tanstack/react-query'
+import { queryClient } from '@/lib/query-client'
+import { UseCaseItemStore } from '@/stores/case-items'
+
+const SAVE_DELAY = 1000
+
+interface CaseItemSyncOptions<T extends { id: string }> {
+  store: UseCaseItemStore<T>
+  // The query `query` was loaded with, updated after each save
+  queryKey: (caseId: string, evaluatorId: string) => QueryKey
+  save: (caseId: string, evaluatorId: string, items: T[]) => Promise<unknown>
+  // For error logs, e.g. "annotations"
+  name: string
+}
+
+// Fills a case item store from the evaluator's saved items and saves local
+// edits back (debounced). Nothing is saved until the initial load has
+// succeeded, so a failed load can't wipe the items on the server. An edit
+// still waiting for the delay is saved straight away when the case changes
+// or the component unmounts. Returns whether the items have loaded.
+function useCaseItemSync<T extends { id: string }>(
+  caseId: string,
+  evaluatorId: string | null,
+  query: UseQueryResult<T[]>,
+  { store, queryKey, save, name }: CaseItemSyncOptions<T>
+): boolean {
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+  const loaded = !!caseId && loadedFor === caseId
+  const revision = store((state) => state.revision[caseId] || 0)
+  const initAtId = store((state) => state.initAtId)
+  const setStatus = store((state) => state.setStatus)
+  const { data, isError } = query
+  // Set while an edit waits for the delay
+  const pendingSave = useRef<(() => void) | null>(null)
+
+  // Only the first load fills the store; after that local edits win
+  useEffect(() => {
+    if (!data || loaded) return
+    initAtId(caseId, data)
+    setLoadedFor(caseId)
+  }, [data, loaded, caseId, initAtId])
+
+  useEffect(() => {
+    if (isError && !loaded) setStatus(caseId, 'error')
+  }, [isError, loaded, caseId, setStatus])
+
+  useEffect(() => {
+    if (!loaded || revision === 0 || !evaluatorId) return
+
+    const saveNow = async () => {
+      pendingSave.current = null
+      setStatus(caseId, 'saving')
+      try {
+        const items = store.getState().items[caseId] || []
+        await save(caseId, evaluatorId, items)
+        queryClient.setQueryData(queryKey(caseId, evaluatorId), items)
+        setStatus(caseId, 'saved')
+      } catch (error) {
+        console.error(`Error saving ${name}:`, error)
+        setStatus(caseId, 'error')
+      }
+    }
+
+    const timer = setTimeout(saveNow, SAVE_DELAY)
+    pendingSave.current = saveNow
+    // A newer edit reschedules; leaving the case flushes, see below
+    return () => clearTimeout(timer)
+  }, [loaded, revision, caseId, evaluatorId, store, queryKey, save, name, setStatus])
+
+  useEffect(() => {
+    return () => {
+      pendingSave.current?.()
+    }
+  }, [caseId, evaluatorId])
+
+  return loaded
+}
+
+export default useCaseItemSync
@@ -0,0 +1,47 @@
+import { useAssignedCases } from '@/services/queries'
+import { Navigation } from '@/types'
+
+export interface CaseNavigation {
+  previousId: string | null
+  nextId: string | null
+  // First case after this one (wrapping around) that isn't completed yet
+  nextIncompleteId: string | null
+  // 1-based, null while the case list is loading or if the case isn't assigned
+  position: number | null
+  total: number
+}
+
+// Works out where the current case sits in the evaluator's case list. The
+// record's own navigation block wins for prev/next; the case list (same order
+// as the cases page) fills in when it's missing and drives the progress count.
+// The list is refetched whenever a score is saved, see invalidateScores.
+function useCaseNavigation(
+  caseId: string,
+  evaluatorId: string | null,
+  navigation?: Navigation
+): CaseNavigation {
+  const cases = useAssignedCases(evaluatorId).data?.cases ?? []
+
+  const index = cases.findIndex((item) => item.id === caseId)
+  const listPreviousId = index > 0 ? cases[index - 1].id : null
+  const listNextId = index !== -1 && index < cases.length - 1 ? cases[index + 1].id : null
+
+  let nextIncompleteId: string | null = null
+  for (let offset = 1; offset <= cases.length; offset++) {
+    const candidate = cases[(index + offset) % cases.length]
+    if (candidate.id !== caseId && candidate.status !== 'completed') {
+      nextIncompleteId = candidate.id
+      break
+    }
+  }
+
+  return {
+    previousId: navigation ? (navigation.hasPrevious ? navigation.previousId : null) : listPreviousId,
+    nextId: navigation ? (navigation.hasNext ? navigation.nextId : null) : listNextId,
+    nextIncompleteId,
+    position: index === -1 ? null : index + 1,
+    total: cases.length,
+  }
+}
+
+export default useCaseNavigation
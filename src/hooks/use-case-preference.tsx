@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useCasePreferences } from '@/services/queries'
+import { CasePreference, PairwiseComparison } from '@/types'
+
+// The evaluator's ranking / pairwise choices for a case, starting from what
+// they submitted earlier. The ranking may be empty or miss responses; callers
+// complete it from the blinded order. `rankingConfirmed` stays false until the
+// evaluator moves a response or confirms the order, so the untouched default
+// order is never submitted as their preference.
+function useCasePreference(caseId: string, evaluatorId: string | null, mode: CasePreference['mode'] | null) {
+  const [ranking, setStoredRanking] = useState<string[]>([])
+  const [rankingConfirmed, setRankingConfirmed] = useState(false)
+  const [comparisons, setComparisons] = useState<PairwiseComparison[]>([])
+
+  const setRanking = useCallback((next: string[]) => {
+    setStoredRanking(next)
+    setRankingConfirmed(true)
+  }, [])
+  const confirmRanking = useCallback(() => setRankingConfirmed(true), [])
+
+  // If loading fails the evaluator starts from scratch, as when nothing was
+  // submitted yet
+  const { data: preferences } = useCasePreferences(caseId, evaluatorId, !!mode)
+
+  useEffect(() => {
+    setStoredRanking([])
+    setRankingConfirmed(false)
+    setComparisons([])
+    const submitted = preferences?.find((preference) => preference.mode === mode)
+    if (!submitted) return
+    setRanking(submitted.ranking)
+    setComparisons(submitted.comparisons)
+  }, [caseId, mode, preferences, setRanking])
+
+  return { ranking, setRanking, rankingConfirmed, confirmRanking, comparisons, setComparisons }
+}
+
+export default useCasePreference
@@ -0,0 +1,17 @@
+import { useEffect } from 'react'
+import useEvalutationStore from '@/stores/evaluation'
+import { saveDraft } from '@/lib/evaluation-drafts'
+
+// Mirrors the scores of the open case to IndexedDB on every change, so a
+// refresh or crash doesn't lose a partially scored case. Restoring happens
+// when the case's evaluations are initialised, see Index.
+function useEvaluationDraft(caseId: string, evaluatorId: string | null) {
+  const evaluations = useEvalutationStore((state) => state.evaluation[caseId])
+
+  useEffect(() => {
+    if (!caseId || !evaluatorId || !evaluations) return
+    saveDraft(evaluatorId, caseId, evaluations)
+  }, [caseId, evaluatorId, evaluations])
+}
+
+export default useEvaluationDraft
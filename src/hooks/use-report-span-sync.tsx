@@ -0,0 +1,18 @@
+import { saveReportSpans } from '@/services'
+import { queryKeys, useCaseReportSpans } from '@/services/queries'
+import useReportSpanStore from '@/stores/report-spans'
+import useCaseItemSync from '@/hooks/use-case-item-sync'
+
+// Loads the evaluator's highlighted report spans for a case and saves local
+// edits back, see useCaseItemSync
+function useReportSpanSync(caseId: string, evaluatorId: string | null) {
+  const query = useCaseReportSpans(caseId, evaluatorId)
+  return useCaseItemSync(caseId, evaluatorId, query, {
+    store: useReportSpanStore,
+    queryKey: queryKeys.caseReportSpans,
+    save: saveReportSpans,
+    name: 'report spans',
+  })
+}
+
+export default useReportSpanSync
@@ -0,0 +1,38 @@
+import { useCallback, useEffect } from 'react'
+import { Locale, TranslateParams, formatDate, formatNumber, translate } from '@/lib/i18n'
+import useLocaleStore, { userLocale } from '@/stores/locale'
+import useSessionStore from '@/stores/session'
+
+// UI strings and date / number formatting in the current user's language
+function useTranslation() {
+  const userId = useSessionStore((state) => state.user?.id ?? null)
+  const locale = useLocaleStore((state) => userLocale(state, userId))
+  const storeLocale = useLocaleStore((state) => state.setLocale)
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  // Reads the locale when called rather than closing over it, so effects
+  // that only use `t` for messages don't re-run when the language changes.
+  // Components still re-render through the `locale` subscription above.
+  const t = useCallback(
+    (key: string, params?: TranslateParams) => translate(userLocale(useLocaleStore.getState(), userId), key, params),
+    [userId]
+  )
+  const setLocale = useCallback(
+    (next: Locale) => storeLocale(userId, next),
+    [storeLocale, userId]
+  )
+
+  return {
+    t,
+    locale,
+    setLocale,
+    formatDate: (value: string | number | Date | null | undefined, options?: Intl.DateTimeFormatOptions) =>
+      formatDate(value, locale, options),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, locale, options)
+  }
+}
+
+export default useTranslation
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+import { GrayImage } from '@/lib/imaging'
+import { DicomDecodeError, DicomHeader } from '@/lib/dicom'
+import { loadXrayImage } from '@/lib/xray-loader'
+
+export interface XrayImageState {
+  url: string | null
+  image: GrayImage | null
+  header: DicomHeader | null
+  decodeError: DicomDecodeError | null
+  // Canvas processing needs CORS access to the pixels, otherwise fall back to a plain <img>
+  canvasUnavailable: boolean
+}
+
+function useXrayImage(url: string | null): XrayImageState {
+  const [state, setState] = useState<XrayImageState>({
+    url,
+    image: null,
+    header: null,
+    decodeError: null,
+    canvasUnavailable: false,
+  })
+
+  useEffect(() => {
+    setState({ url, image: null, header: null, decodeError: null, canvasUnavailable: false })
+    if (!url) return
+
+    const controller = new AbortController()
+
+    loadXrayImage(url, controller.signal)
+      .then((loaded) => {
+        setState((prev) => ({ ...prev, image: loaded.image, header: loaded.header ?? null }))
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error('Error loading X-ray image:', url, error)
+        if (error instanceof DicomDecodeError) {
+          setState((prev) => ({ ...prev, decodeError: error }))
+        } else {
+          setState((prev) => ({ ...prev, canvasUnavailable: true }))
+        }
+      })
+
+    return () => controller.abort()
+  }, [url])
+
+  return state
+}
+
+export default useXrayImage
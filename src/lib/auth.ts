@@ -0,0 +1,22 @@
+import { SessionUser, UserRole } from '@/types'
+
+export const USER_ROLES: UserRole[] = ['evaluator', 'supervisor', 'admin']
+
+// Roles allowed on each group of routes, see App.tsx
+export const EVALUATOR_ROLES: UserRole[] = ['evaluator']
+export const SUPERVISOR_ROLES: UserRole[] = ['supervisor', 'admin']
+
+export function hasRole(user: SessionUser | null, roles: UserRole[]): boolean {
+  return !!user && roles.includes(user.role)
+}
+
+export function toUserRole(role: string): UserRole | null {
+  return USER_ROLES.find((known) => known === role) ?? null
+}
+
+// Where a user lands after signing in
+export function homePath(user: SessionUser): string {
+  if (hasRole(user, SUPERVISOR_ROLES)) return '/supervisor/dashboard'
+  if (hasRole(user, EVALUATOR_ROLES)) return '/cases'
+  return '/forbidden'
+}
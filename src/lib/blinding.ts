@@ -0,0 +1,49 @@
+import { seededShuffle } from '@/lib/utils'
+
+// Blinded slot (1-based, "MODEL 1", "MODEL 2", ...) per model response id
+export interface SlotMap {
+  [responseId: string]: number
+}
+
+// Blinded slots of a case's model outputs for one evaluator. The order is
+// seeded from the case and evaluator so it is the same on every render and
+// reload. Slots already stored with the evaluator's scores are kept, so the
+// order can't change under a half-finished evaluation; responses without one
+// (e.g. added later) take the lowest free slots, in seeded order. Stored slots
+// may leave gaps, so they are shown as they are rather than renumbered.
+export function blindSlots(
+  outputs: { responseId: string }[],
+  caseId: string,
+  evaluatorId: string | null,
+  storedSlots: SlotMap = {}
+): SlotMap {
+  // Sort first so the result doesn't depend on the order the API returns
+  const sorted = [...outputs].sort((a, b) => a.responseId.localeCompare(b.responseId))
+  const seeded = seededShuffle(sorted, `${caseId}:${evaluatorId || ''}`)
+
+  const slots: SlotMap = {}
+  const taken = new Set<number>()
+  seeded.forEach((output) => {
+    const slot = storedSlots[output.responseId]
+    if (Number.isInteger(slot) && slot > 0 && !taken.has(slot)) {
+      slots[output.responseId] = slot
+      taken.add(slot)
+    }
+  })
+
+  let next = 1
+  seeded
+    .filter((output) => slots[output.responseId] === undefined)
+    .forEach((output) => {
+      while (taken.has(next)) next++
+      slots[output.responseId] = next
+      taken.add(next)
+    })
+
+  return slots
+}
+
+// Outputs in the order of their blinded slots
+export function sortBySlot<T extends { responseId: string }>(outputs: T[], slots: SlotMap): T[] {
+  return [...outputs].sort((a, b) => slots[a.responseId] - slots[b.responseId])
+}
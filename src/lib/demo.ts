@@ -0,0 +1,14 @@
+import { Metric } from '@/types'
+
+// Offline demo mode, turned on with VITE_DEMO_MODE=true. Metrics come from
+// the fixtures below instead of the backend, so scores given in it don't
+// belong to any real study. They are never sent: the outbox, feedback saving
+// and submit all skip their writes, and pages that score show a banner.
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true'
+
+// Stand-ins for metrics configured on the backend, whose text is shown as is
+export const DEMO_METRICS: Metric[] = [
+  { id: 'demo-accuracy', name: 'Accuracy', description: 'Findings match the image and the ground truth' }, // i18n-ignore
+  { id: 'demo-completeness', name: 'Completeness', description: 'No significant findings are left out' }, // i18n-ignore
+  { id: 'demo-relevance', name: 'Relevance', description: 'The report sticks to clinically relevant content' }, // i18n-ignore
+]
@@ -0,0 +1,392 @@
+import * as dicomParser from 'dicom-parser'
+import { Decoder as JpegLosslessDecoder } from 'jpeg-lossless-decoder-js'
+import { GrayImage, WindowPreset } from '@/lib/imaging'
+
+// Header tags shown in the viewer overlay. Patient identifying tags are
+// deliberately never read.
+export interface DicomHeader {
+  modality?: string
+  viewPosition?: string
+  studyDate?: string
+  bodyPart?: string
+  photometricInterpretation: string
+  transferSyntax: string
+  rows: number
+  columns: number
+  bitsStored: number
+  // Row and column spacing in mm, used by the ruler
+  pixelSpacing?: [number, number]
+}
+
+export interface DecodedDicom {
+  image: GrayImage
+  header: DicomHeader
+}
+
+// Why a file couldn't be shown; the viewer has a message for each
+// (viewer.decodeErrors in the catalogs)
+export type DicomErrorReason = 'parse' | 'noImage' | 'unsupportedSyntax' | 'unsupportedBits' | 'truncated'
+
+export class DicomDecodeError extends Error {
+  reason: DicomErrorReason
+  // Transfer syntax or bit depth the message is about
+  detail?: string
+
+  constructor(message: string, reason: DicomErrorReason, detail?: string) {
+    super(message)
+    this.name = 'DicomDecodeError'
+    this.reason = reason
+    this.detail = detail
+  }
+}
+
+const TRANSFER_SYNTAXES: { [uid: string]: string } = {
+  '1.2.840.10008.1.2': 'Implicit VR Little Endian',
+  '1.2.840.10008.1.2.1': 'Explicit VR Little Endian',
+  '1.2.840.10008.1.2.1.99': 'Deflated Explicit VR Little Endian',
+  '1.2.840.10008.1.2.2': 'Explicit VR Big Endian',
+  '1.2.840.10008.1.2.4.50': 'JPEG Baseline',
+  '1.2.840.10008.1.2.4.57': 'JPEG Lossless',
+  '1.2.840.10008.1.2.4.70': 'JPEG Lossless SV1',
+  '1.2.840.10008.1.2.4.90': 'JPEG 2000 Lossless',
+  '1.2.840.10008.1.2.4.91': 'JPEG 2000',
+  '1.2.840.10008.1.2.5': 'RLE Lossless',
+}
+
+const IMPLICIT_LITTLE_ENDIAN = '1.2.840.10008.1.2'
+const DEFLATED = '1.2.840.10008.1.2.1.99'
+const BIG_ENDIAN = '1.2.840.10008.1.2.2'
+const JPEG_BASELINE = '1.2.840.10008.1.2.4.50'
+const JPEG_LOSSLESS = ['1.2.840.10008.1.2.4.57', '1.2.840.10008.1.2.4.70']
+const RLE_LOSSLESS = '1.2.840.10008.1.2.5'
+
+// Part 10 files carry "DICM" after a 128 byte preamble
+export function isDicom(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 132 &&
+    bytes[128] === 0x44 &&
+    bytes[129] === 0x49 &&
+    bytes[130] === 0x43 &&
+    bytes[131] === 0x4d
+  )
+}
+
+export function looksLikeDicomUrl(url: string): boolean {
+  return /\.(dcm|dicom)(\?|#|$)/i.test(url)
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Deflated datasets have to be inflated up-front because dicom-parser's inflater hook is synchronous
+async function parseDataSet(bytes: Uint8Array): Promise<dicomParser.DataSet> {
+  if (!isDicom(bytes)) {
+    // Raw dataset without preamble/meta header, as written by some legacy exporters
+    return dicomParser.parseDicom(bytes, { TransferSyntaxUID: IMPLICIT_LITTLE_ENDIAN })
+  }
+
+  const meta = dicomParser.readPart10Header(bytes)
+  if (meta.string('x00020010') !== DEFLATED) {
+    return dicomParser.parseDicom(bytes)
+  }
+
+  const groupLength = meta.elements.x00020000
+  const metaEnd = groupLength.dataOffset + groupLength.length + meta.uint32('x00020000')
+  const inflated = await inflateRaw(bytes.subarray(metaEnd))
+  const combined = new Uint8Array(metaEnd + inflated.length)
+  combined.set(bytes.subarray(0, metaEnd), 0)
+  combined.set(inflated, metaEnd)
+
+  return dicomParser.parseDicom(bytes, {
+    inflater: () => combined,
+  })
+}
+
+// PackBits decoding of one RLE segment
+function decodeRleSegment(data: Uint8Array, start: number, end: number, length: number): Uint8Array {
+  const out = new Uint8Array(length)
+  let inPos = start
+  let outPos = 0
+
+  while (inPos < end && outPos < length) {
+    const n = (data[inPos++] << 24) >> 24
+    if (n >= 0) {
+      for (let i = 0; i <= n && outPos < length; i++) out[outPos++] = data[inPos++]
+    } else if (n !== -128) {
+      const value = data[inPos++]
+      for (let i = 0; i < 1 - n && outPos < length; i++) out[outPos++] = value
+    }
+  }
+
+  return out
+}
+
+// Returns the frame as little-endian, pixel-interleaved bytes
+function decodeRle(frame: Uint8Array, pixelCount: number, bytesPerSample: number, samples: number): Uint8Array {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength)
+  const segmentCount = view.getUint32(0, true)
+  const offsets = Array.from({ length: segmentCount }, (_, i) => view.getUint32(4 * (i + 1), true))
+  const out = new Uint8Array(pixelCount * bytesPerSample * samples)
+
+  offsets.forEach((offset, segment) => {
+    const end = segment + 1 < segmentCount ? offsets[segment + 1] : frame.length
+    const decoded = decodeRleSegment(frame, offset, end, pixelCount)
+    const sample = Math.floor(segment / bytesPerSample)
+    // Segments are ordered most significant byte first
+    const byte = bytesPerSample - 1 - (segment % bytesPerSample)
+    for (let p = 0; p < pixelCount; p++) {
+      out[(p * samples + sample) * bytesPerSample + byte] = decoded[p]
+    }
+  })
+
+  return out
+}
+
+async function decodeJpegBaseline(frame: Uint8Array): Promise<ImageData> {
+  const bitmap = await createImageBitmap(new Blob([frame], { type: 'image/jpeg' }))
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext('2d')
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+// Lossless JPEG (process 14) isn't supported by browsers' image decoders.
+// Returns the samples as little-endian bytes, like uncompressed pixel data.
+function decodeJpegLossless(frame: Uint8Array, bytesPerSample: number): Uint8Array {
+  const decoded = new JpegLosslessDecoder().decode(frame.buffer, frame.byteOffset, frame.byteLength, bytesPerSample)
+  return new Uint8Array(decoded.buffer, decoded.byteOffset, decoded.byteLength)
+}
+
+function checkLength(bytes: ArrayLike<number>, expected: number) {
+  if (bytes.length < expected) {
+    throw new DicomDecodeError(`Pixel data has ${bytes.length} bytes, expected ${expected}`, 'truncated')
+  }
+}
+
+function readStoredValues(
+  bytes: Uint8Array,
+  pixelCount: number,
+  bitsAllocated: number,
+  bitsStored: number,
+  signed: boolean,
+  littleEndian: boolean
+): Float32Array {
+  const values = new Float32Array(pixelCount)
+
+  if (bitsAllocated === 8) {
+    for (let p = 0; p < pixelCount; p++) {
+      values[p] = signed ? (bytes[p] << 24) >> 24 : bytes[p]
+    }
+    return values
+  }
+
+  if (bitsAllocated !== 16) {
+    throw new DicomDecodeError(`Unsupported bits allocated: ${bitsAllocated}`, 'unsupportedBits', String(bitsAllocated))
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const mask = (1 << bitsStored) - 1
+  const signBit = 1 << (bitsStored - 1)
+  for (let p = 0; p < pixelCount; p++) {
+    let value = view.getUint16(p * 2, littleEndian) & mask
+    if (signed && value & signBit) value -= 1 << bitsStored
+    values[p] = value
+  }
+  return values
+}
+
+// Collapse RGB (interleaved or planar) to luminance
+function rgbToGray(bytes: Uint8Array, pixelCount: number, planar: boolean): Float32Array {
+  const values = new Float32Array(pixelCount)
+  for (let p = 0; p < pixelCount; p++) {
+    const [r, g, b] = planar
+      ? [bytes[p], bytes[p + pixelCount], bytes[p + 2 * pixelCount]]
+      : [bytes[p * 3], bytes[p * 3 + 1], bytes[p * 3 + 2]]
+    values[p] = Math.round(0.299 * r + 0.587 * g + 0.114 * b)
+  }
+  return values
+}
+
+// Window Center/Width are already expressed in rescaled (modality) units
+function windowPresets(dataSet: dicomParser.DataSet): WindowPreset[] {
+  const count = dataSet.numStringValues('x00281050') || 0
+  const presets: WindowPreset[] = []
+
+  for (let i = 0; i < count; i++) {
+    const windowCenter = dataSet.floatString('x00281050', i)
+    const windowWidth = dataSet.floatString('x00281051', i)
+    if (windowCenter === undefined || !windowWidth) continue
+    presets.push({
+      // Unnamed presets are numbered by the viewer
+      label: dataSet.string('x00281055', i) || '',
+      windowCenter,
+      windowWidth,
+    })
+  }
+
+  return presets
+}
+
+// First item of the VOI LUT Sequence, baked into the pixels when present
+function applyVoiLut(dataSet: dicomParser.DataSet, values: Float32Array): string | null {
+  const sequence = dataSet.elements.x00283010
+  const item = sequence?.items?.[0]?.dataSet
+  const lutData = item?.elements.x00283006
+  if (!item || !lutData) return null
+
+  const entries = item.uint16('x00283002', 0) || 65536
+  const firstMapped = item.elements.x00283002.vr === 'SS'
+    ? item.int16('x00283002', 1)
+    : item.uint16('x00283002', 1)
+  const bytesPerEntry = lutData.length / entries >= 2 ? 2 : 1
+  const table = Array.from({ length: entries }, (_, i) =>
+    bytesPerEntry === 2
+      ? item.uint16('x00283006', i)
+      : item.byteArray[lutData.dataOffset + i]
+  )
+
+  for (let p = 0; p < values.length; p++) {
+    const idx = Math.min(Math.max(Math.round(values[p]) - firstMapped, 0), entries - 1)
+    values[p] = table[idx]
+  }
+
+  return item.string('x00283003') || 'VOI LUT'
+}
+
+export async function decodeDicom(bytes: Uint8Array): Promise<DecodedDicom> {
+  let dataSet: dicomParser.DataSet
+  try {
+    dataSet = await parseDataSet(bytes)
+  } catch (error) {
+    // dicom-parser throws plain strings
+    throw new DicomDecodeError(`Unable to parse DICOM file: ${error instanceof Error ? error.message : error}`, 'parse')
+  }
+  const transferSyntax = dataSet.string('x00020010') || IMPLICIT_LITTLE_ENDIAN
+
+  const rows = dataSet.uint16('x00280010')
+  const columns = dataSet.uint16('x00280011')
+  const pixelElement = dataSet.elements.x7fe00010
+  if (!rows || !columns || !pixelElement) {
+    throw new DicomDecodeError('DICOM file contains no image data', 'noImage')
+  }
+
+  const samples = dataSet.uint16('x00280002') || 1
+  const bitsAllocated = dataSet.uint16('x00280100') || 8
+  const bitsStored = dataSet.uint16('x00280101') || bitsAllocated
+  const signed = dataSet.uint16('x00280103') === 1
+  const planar = dataSet.uint16('x00280006') === 1
+  const photometric = (dataSet.string('x00280004') || 'MONOCHROME2').toUpperCase()
+  const slope = dataSet.floatString('x00281053') ?? 1
+  const intercept = dataSet.floatString('x00281052') ?? 0
+  const pixelCount = rows * columns
+
+  let values: Float32Array
+  let rescale = true
+
+  try {
+    if (pixelElement.encapsulatedPixelData) {
+      const frame = new Uint8Array(
+        dicomParser.readEncapsulatedPixelDataFromFragments(
+          dataSet,
+          pixelElement,
+          0,
+          pixelElement.fragments.length
+        )
+      )
+
+      if (transferSyntax === RLE_LOSSLESS) {
+        const raw = decodeRle(frame, pixelCount, bitsAllocated / 8, samples)
+        values = samples === 3
+          ? rgbToGray(raw, pixelCount, false)
+          : readStoredValues(raw, pixelCount, bitsAllocated, bitsStored, signed, true)
+      } else if (JPEG_LOSSLESS.includes(transferSyntax)) {
+        const raw = decodeJpegLossless(frame, bitsAllocated / 8)
+        checkLength(raw, pixelCount * samples * (bitsAllocated / 8))
+        values = samples === 3
+          ? rgbToGray(raw, pixelCount, false)
+          : readStoredValues(raw, pixelCount, bitsAllocated, bitsStored, signed, true)
+      } else if (transferSyntax === JPEG_BASELINE) {
+        const { data } = await decodeJpegBaseline(frame)
+        checkLength(data, pixelCount * 4)
+        values = new Float32Array(pixelCount)
+        for (let p = 0; p < pixelCount; p++) {
+          values[p] = Math.round(0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2])
+        }
+        // The browser decoder already applied any colour transform
+        rescale = samples === 1
+      } else {
+        // Includes JPEG 2000, which would need a WebAssembly codec
+        const name = TRANSFER_SYNTAXES[transferSyntax] || transferSyntax
+        throw new DicomDecodeError(`Unsupported DICOM transfer syntax ${name}`, 'unsupportedSyntax', name)
+      }
+    } else {
+      const expected = pixelCount * samples * (bitsAllocated / 8)
+      const raw = dataSet.byteArray.subarray(pixelElement.dataOffset, pixelElement.dataOffset + expected)
+      checkLength(raw, expected)
+      values = samples === 3
+        ? rgbToGray(raw, pixelCount, planar)
+        : readStoredValues(raw, pixelCount, bitsAllocated, bitsStored, signed, transferSyntax !== BIG_ENDIAN)
+    }
+  } catch (error) {
+    if (error instanceof DicomDecodeError) throw error
+    // Offsets or lengths past the end of a truncated or corrupt file
+    if (error instanceof RangeError) {
+      throw new DicomDecodeError(`Pixel data is incomplete: ${error.message}`, 'truncated')
+    }
+    throw new DicomDecodeError(`Unable to decode pixel data: ${error instanceof Error ? error.message : error}`, 'parse')
+  }
+
+  if (samples === 1 && rescale && (slope !== 1 || intercept !== 0)) {
+    for (let p = 0; p < pixelCount; p++) values[p] = values[p] * slope + intercept
+  }
+
+  const voiLutLabel = samples === 1 ? applyVoiLut(dataSet, values) : null
+
+  let minValue = Infinity
+  let maxValue = -Infinity
+  for (let p = 0; p < pixelCount; p++) {
+    if (values[p] < minValue) minValue = values[p]
+    if (values[p] > maxValue) maxValue = values[p]
+  }
+
+  const presets = voiLutLabel
+    ? [{ label: voiLutLabel, windowCenter: (minValue + maxValue) / 2, windowWidth: Math.max(maxValue - minValue, 1) }]
+    : windowPresets(dataSet)
+
+  const studyDate = dataSet.string('x00080020')
+  // Prefer calibrated Pixel Spacing, fall back to the detector's Imager Pixel Spacing
+  const spacingTag = dataSet.elements.x00280030 ? 'x00280030' : 'x00181164'
+  const rowSpacing = dataSet.floatString(spacingTag, 0)
+  const columnSpacing = dataSet.floatString(spacingTag, 1)
+
+  return {
+    image: {
+      width: columns,
+      height: rows,
+      pixels: values,
+      minValue,
+      maxValue,
+      presets,
+      invertByDefault: photometric === 'MONOCHROME1',
+    },
+    header: {
+      modality: dataSet.string('x00080060'),
+      viewPosition: dataSet.string('x00185101'),
+      studyDate: studyDate && studyDate.length === 8
+        ? `${studyDate.slice(0, 4)}-${studyDate.slice(4, 6)}-${studyDate.slice(6, 8)}`
+        : studyDate,
+      bodyPart: dataSet.string('x00180015'),
+      photometricInterpretation: photometric,
+      transferSyntax: TRANSFER_SYNTAXES[transferSyntax] || transferSyntax,
+      rows,
+      columns,
+      bitsStored,
+      pixelSpacing: rowSpacing && columnSpacing ? [rowSpacing, columnSpacing] : undefined,
+    },
+  }
+}
@@ -0,0 +1,52 @@
+import { Evaluation } from '@/types'
+import { DRAFTS_STORE, deleteRecord, getAllRecords, getRecord, putRecord } from '@/lib/offline-db'
+
+interface EvaluationDraft {
+  key: string
+  evaluatorId: string
+  caseId: string
+  evaluations: Evaluation[]
+  updatedAt: number
+}
+
+const draftKey = (evaluatorId: string, caseId: string) => `${evaluatorId}:${caseId}`
+
+// Drafts are a local safety net; failing to read or write them must never block scoring
+export async function loadDraft(evaluatorId: string, caseId: string): Promise<Evaluation[] | null> {
+  try {
+    const draft = await getRecord<EvaluationDraft>(DRAFTS_STORE, draftKey(evaluatorId, caseId))
+    return draft?.evaluations ?? null
+  } catch (error) {
+    console.error('Error loading evaluation draft:', error)
+    return null
+  }
+}
+
+export async function saveDraft(evaluatorId: string, caseId: string, evaluations: Evaluation[]): Promise<void> {
+  try {
+    await putRecord<EvaluationDraft>(DRAFTS_STORE, {
+      key: draftKey(evaluatorId, caseId),
+      evaluatorId,
+      caseId,
+      evaluations,
+      updatedAt: Date.now()
+    })
+  } catch (error) {
+    console.error('Error saving evaluation draft:', error)
+  }
+}
+
+// Removes an evaluator's drafts when they sign out, so the next user of the
+// browser can't see or restore them
+export async function clearDrafts(evaluatorId: string): Promise<void> {
+  try {
+    const drafts = await getAllRecords<EvaluationDraft>(DRAFTS_STORE)
+    await Promise.all(
+      drafts
+        .filter((draft) => draft.evaluatorId === evaluatorId)
+        .map((draft) => deleteRecord(DRAFTS_STORE, draft.key))
+    )
+  } catch (error) {
+    console.error('Error clearing evaluation drafts:', error)
+  }
+}
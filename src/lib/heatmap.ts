@@ -0,0 +1,53 @@
+// Jet-style colour ramp: low attention is blue, high attention is red
+function rampColor(value: number): [number, number, number] {
+  const channel = (offset: number) =>
+    Math.round(255 * Math.min(1, Math.max(0, 1.5 - Math.abs(4 * value - offset))))
+  return [channel(3), channel(2), channel(1)]
+}
+
+// Treat the map as a single-channel intensity map when every pixel is gray
+function isGrayscale(data: Uint8ClampedArray): boolean {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) return false
+  }
+  return true
+}
+
+// Turns a grayscale attention map into colour, with weak activations fading
+// out so the X-ray stays visible. Maps that already have colour are kept as-is.
+export function colorizeHeatmap(source: ImageData): ImageData {
+  const { data } = source
+  if (!isGrayscale(data)) return source
+
+  const output = new ImageData(source.width, source.height)
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i] / 255
+    const [r, g, b] = rampColor(value)
+    output.data[i] = r
+    output.data[i + 1] = g
+    output.data[i + 2] = b
+    output.data[i + 3] = Math.round(255 * Math.min(1, value * 1.5) * (data[i + 3] / 255))
+  }
+  return output
+}
+
+// Fetches a heatmap image and returns it colourised. Rejects with a TypeError
+// when the server doesn't allow CORS access.
+export async function loadHeatmap(url: string, signal?: AbortSignal): Promise<ImageData> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to load heatmap (${response.status})`)
+  }
+
+  const bitmap = await createImageBitmap(await response.blob())
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const ctx = canvas.getContext('2d')
+    ctx.drawImage(bitmap, 0, 0)
+    return colorizeHeatmap(ctx.getImageData(0, 0, canvas.width, canvas.height))
+  } finally {
+    bitmap.close()
+  }
+}
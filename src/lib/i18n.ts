@@ -0,0 +1,88 @@
+import en from '@/locales/en.json'
+import hi from '@/locales/hi.json'
+import { ErrorTag } from '@/types'
+
+export type Locale = 'en' | 'hi'
+
+export const LOCALES: { code: Locale; name: string; intlLocale: string }[] = [
+  { code: 'en', name: 'English', intlLocale: 'en-IN' },
+  { code: 'hi', name: 'हिन्दी', intlLocale: 'hi-IN' },
+]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+interface Messages {
+  [key: string]: string | Messages
+}
+
+export type TranslateParams = { [name: string]: string | number }
+
+// English is the reference catalog; scripts/check-i18n.mjs flags keys the
+// others are missing, and lookups fall back to it at runtime
+const CATALOGS: { [locale in Locale]: Messages } = { en, hi }
+
+const reportedMissing = new Set<string>()
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return LOCALES.some((locale) => locale.code === value)
+}
+
+function intlLocale(locale: Locale): string {
+  return LOCALES.find((item) => item.code === locale)?.intlLocale || locale
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  const value = key.split('.').reduce<string | Messages | undefined>(
+    (node, part) => (node && typeof node === 'object' ? node[part] : undefined),
+    messages
+  )
+  return typeof value === 'string' ? value : undefined
+}
+
+function find(locale: Locale, key: string): string | undefined {
+  const message = lookup(CATALOGS[locale], key)
+  if (message !== undefined || locale === DEFAULT_LOCALE) return message
+
+  if (!reportedMissing.has(`${locale}:${key}`)) {
+    reportedMissing.add(`${locale}:${key}`)
+    console.warn(`Missing ${locale} translation for "${key}"`)
+  }
+  return lookup(CATALOGS[DEFAULT_LOCALE], key)
+}
+
+// Looks up a dotted key such as "index.submit". With a numeric `count`
+// param, "<key>_one" / "<key>_other" are tried first. {{name}} placeholders
+// are filled from params.
+export function translate(locale: Locale, key: string, params?: TranslateParams): string {
+  const count = params?.count
+  const pluralKey = typeof count === 'number'
+    ? `${key}_${new Intl.PluralRules(intlLocale(locale)).select(count)}`
+    : null
+  const hasPlural = !!pluralKey && lookup(CATALOGS[DEFAULT_LOCALE], pluralKey) !== undefined
+  const message = (hasPlural ? find(locale, pluralKey) : undefined) ?? find(locale, key) ?? key
+
+  return message.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    params && params[name] !== undefined ? String(params[name]) : placeholder
+  )
+}
+
+export function formatDate(
+  value: string | number | Date | null | undefined,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string {
+  if (value === null || value === undefined || value === '') return translate(locale, 'common.invalidDate')
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) return translate(locale, 'common.invalidDate')
+  return new Intl.DateTimeFormat(intlLocale(locale), options).format(date)
+}
+
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(intlLocale(locale), options).format(value)
+}
+
+// Built-in error tags are labelled through the catalog; tags configured on the
+// backend come with their own label
+export function errorTagLabel(tag: ErrorTag, t: (key: string) => string): string {
+  return tag.labelKey ? t(tag.labelKey) : tag.label
+}
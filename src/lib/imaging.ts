@@ -0,0 +1,126 @@
+export interface WindowPreset {
+  // Empty for unnamed presets, which the viewer numbers
+  label: string
+  windowWidth: number
+  windowCenter: number
+}
+
+// Grayscale pixel data decoded from an X-ray, independent of its source format
+export interface GrayImage {
+  width: number
+  height: number
+  pixels: ArrayLike<number>
+  minValue: number
+  maxValue: number
+  // Window presets stored with the image (DICOM VOI attributes)
+  presets?: WindowPreset[]
+  // MONOCHROME1 images store bone as dark values
+  invertByDefault?: boolean
+}
+
+export interface DisplaySettings {
+  windowWidth: number
+  windowCenter: number
+  gamma: number
+  invert: boolean
+}
+
+export const MIN_GAMMA = 0.2
+export const MAX_GAMMA = 3
+
+// First stored preset (or the full dynamic range), no gamma correction
+export function defaultDisplaySettings(image: GrayImage): DisplaySettings {
+  const range = Math.max(image.maxValue - image.minValue, 1)
+  const preset = image.presets?.[0]
+  return {
+    windowWidth: preset?.windowWidth ?? range,
+    windowCenter: preset?.windowCenter ?? image.minValue + range / 2,
+    gamma: 1,
+    invert: !!image.invertByDefault,
+  }
+}
+
+// Convert a decoded browser image into luminance values (0-255)
+export function grayImageFromBitmap(bitmap: ImageBitmap): GrayImage {
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext('2d')
+  ctx.drawImage(bitmap, 0, 0)
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const pixels = new Uint8Array(canvas.width * canvas.height)
+  let minValue = 255
+  let maxValue = 0
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    // Rec. 601 luma, X-rays are usually stored as gray RGB anyway
+    const value = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])
+    pixels[p] = value
+    if (value < minValue) minValue = value
+    if (value > maxValue) maxValue = value
+  }
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    pixels,
+    minValue,
+    maxValue,
+  }
+}
+
+// Lookup table from stored value (offset by minValue) to display intensity
+export function buildDisplayLut(image: GrayImage, settings: DisplaySettings): Uint8ClampedArray {
+  const size = Math.max(Math.ceil(image.maxValue - image.minValue) + 1, 1)
+  const lut = new Uint8ClampedArray(size)
+  const width = Math.max(settings.windowWidth, 1)
+  const lower = settings.windowCenter - width / 2
+  const exponent = 1 / settings.gamma
+
+  for (let i = 0; i < size; i++) {
+    const normalized = Math.min(Math.max((image.minValue + i - lower) / width, 0), 1)
+    const corrected = Math.pow(normalized, exponent)
+    lut[i] = Math.round((settings.invert ? 1 - corrected : corrected) * 255)
+  }
+
+  return lut
+}
+
+// Paint the windowed image into an RGBA buffer of the same dimensions
+export function renderGrayImage(
+  image: GrayImage,
+  settings: DisplaySettings,
+  target: ImageData
+) {
+  const lut = buildDisplayLut(image, settings)
+  const { pixels, minValue } = image
+  const out = target.data
+  const last = lut.length - 1
+
+  for (let p = 0, i = 0; p < pixels.length; p++, i += 4) {
+    const idx = Math.min(Math.max(Math.round(pixels[p] - minValue), 0), last)
+    const value = lut[idx]
+    out[i] = value
+    out[i + 1] = value
+    out[i + 2] = value
+    out[i + 3] = 255
+  }
+}
+
+// Mouse-drag window/level: horizontal movement changes width, vertical changes center
+export function applyWindowDrag(
+  image: GrayImage,
+  start: DisplaySettings,
+  dx: number,
+  dy: number
+): DisplaySettings {
+  const range = Math.max(image.maxValue - image.minValue, 1)
+  const step = range / 512
+
+  return {
+    ...start,
+    windowWidth: Math.max(start.windowWidth + dx * step, 1),
+    windowCenter: start.windowCenter - dy * step,
+  }
+}
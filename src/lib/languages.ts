@@ -0,0 +1,109 @@
+import { Metric, Record } from '@/types'
+
+type Script =
+  | 'latin'
+  | 'devanagari'
+  | 'bengali'
+  | 'tamil'
+  | 'telugu'
+  | 'kannada'
+  | 'malayalam'
+  | 'gujarati'
+  | 'gurmukhi'
+  | 'oriya'
+  | 'arabic'
+
+export interface LanguageInfo {
+  code: string
+  name: string
+  nativeName: string
+  script: Script
+  direction: 'ltr' | 'rtl'
+}
+
+const LANGUAGES: { [code: string]: Omit<LanguageInfo, 'code' | 'direction'> } = {
+  en: { name: 'English', nativeName: 'English', script: 'latin' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', script: 'devanagari' },
+  mr: { name: 'Marathi', nativeName: 'मराठी', script: 'devanagari' },
+  ne: { name: 'Nepali', nativeName: 'नेपाली', script: 'devanagari' },
+  bn: { name: 'Bengali', nativeName: 'বাংলা', script: 'bengali' },
+  as: { name: 'Assamese', nativeName: 'অসমীয়া', script: 'bengali' },
+  ta: { name: 'Tamil', nativeName: 'தமிழ்', script: 'tamil' },
+  te: { name: 'Telugu', nativeName: 'తెలుగు', script: 'telugu' },
+  kn: { name: 'Kannada', nativeName: 'ಕನ್ನಡ', script: 'kannada' },
+  ml: { name: 'Malayalam', nativeName: 'മലയാളം', script: 'malayalam' },
+  gu: { name: 'Gujarati', nativeName: 'ગુજરાતી', script: 'gujarati' },
+  pa: { name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', script: 'gurmukhi' },
+  or: { name: 'Odia', nativeName: 'ଓଡ଼ିଆ', script: 'oriya' },
+  ur: { name: 'Urdu', nativeName: 'اردو', script: 'arabic' },
+}
+
+export const DEFAULT_LANGUAGE = 'en'
+
+// Accepts BCP 47 tags like "hi-IN"; unknown languages are shown as Latin text
+export function languageInfo(code: string): LanguageInfo {
+  const base = (code || DEFAULT_LANGUAGE).toLowerCase().split(/[-_]/)[0]
+  const info = LANGUAGES[base] || { name: base.toUpperCase(), nativeName: base, script: 'latin' as const }
+  return { code: base, ...info, direction: info.script === 'arabic' ? 'rtl' : 'ltr' }
+}
+
+// Font and line-height class from index.css, empty for Latin text
+export function scriptClassName(code: string): string {
+  const { script } = languageInfo(code)
+  return script === 'latin' ? '' : `script-${script}`
+}
+
+// Languages one report has text in, the original first
+export function reportLanguages(report: { language: string; translations: { language: string }[] }): string[] {
+  return [...new Set([report.language, ...report.translations.map((translation) => translation.language)])]
+}
+
+// Every language the case's ground truth or model reports are available in,
+// originals first
+export function recordLanguages(record: Record): string[] {
+  const reports = [record.groundTruth, ...record.modelOutputs]
+  return [
+    ...new Set([
+      ...reports.map((report) => report.language),
+      ...reports.flatMap((report) => reportLanguages(report)),
+    ]),
+  ]
+}
+
+// Per-language scores are kept as separate metric columns with ids like
+// "3@hi"; the services layer splits them again before sending
+const VARIANT_SEPARATOR = '@'
+
+export function variantMetricId(metricId: string, language?: string | null): string {
+  return language ? `${metricId}${VARIANT_SEPARATOR}${language}` : metricId
+}
+
+export function splitVariantMetricId(id: string): { metricId: string; language: string | null } {
+  const [metricId, language] = id.split(VARIANT_SEPARATOR)
+  return { metricId, language: language || null }
+}
+
+// Replaces every per-language metric with one column per language the case's
+// reports are available in. Cases in a single language keep plain columns.
+// A response is only scored in the columns of its own languages, see
+// metricAppliesTo.
+export function expandLanguageMetrics(metrics: Metric[], languages: string[]): Metric[] {
+  if (languages.length < 2) return metrics
+
+  return metrics.flatMap((metric) =>
+    metric.perLanguage
+      ? languages.map((language) => ({
+          ...metric,
+          id: variantMetricId(metric.id, language),
+          name: `${metric.name} (${languageInfo(language).name})`,
+        }))
+      : [metric]
+  )
+}
+
+// Whether a response with text in `languages` is scored on a metric column;
+// per-language columns only apply to the languages it has
+export function metricAppliesTo(metricId: string, languages: string[]): boolean {
+  const { language } = splitVariantMetricId(metricId)
+  return !language || languages.includes(language)
+}
@@ -0,0 +1,120 @@
+import { CasePreference } from '@/types'
+
+// One decided comparison between two responses
+export interface PreferenceOutcome {
+  winner: string
+  loser: string
+  tie: boolean
+}
+
+export interface LeaderboardEntry {
+  model: string
+  rating: number
+  wins: number
+  losses: number
+  ties: number
+  comparisons: number
+}
+
+const MAX_ITERATIONS = 500
+const TOLERANCE = 1e-8
+
+// A ranking of n responses counts as every pair it implies
+export function preferenceOutcomes(preference: CasePreference): PreferenceOutcome[] {
+  if (preference.mode === 'ranking') {
+    return preference.ranking.flatMap((winner, index) =>
+      preference.ranking.slice(index + 1).map((loser) => ({ winner, loser, tie: false }))
+    )
+  }
+
+  return preference.comparisons.map(({ leftResponseId, rightResponseId, outcome }) =>
+    outcome === 'right'
+      ? { winner: rightResponseId, loser: leftResponseId, tie: false }
+      : { winner: leftResponseId, loser: rightResponseId, tie: outcome === 'tie' }
+  )
+}
+
+// Bradley–Terry strengths fitted with Hunter's MM algorithm, reported on the
+// Elo scale (1500 = average). Ties count as half a win for each side, and
+// every pair of models that met gets one extra virtual tie so a model that
+// never lost still has a finite rating.
+export function bradleyTerryLeaderboard(
+  outcomes: PreferenceOutcome[],
+  modelOf: (responseId: string) => string
+): LeaderboardEntry[] {
+  const stats: { [model: string]: Omit<LeaderboardEntry, 'model' | 'rating'> } = {}
+  // Half-win counts between each ordered pair of models
+  const wins: { [model: string]: { [opponent: string]: number } } = {}
+
+  const addWin = (winner: string, loser: string, amount: number) => {
+    wins[winner] = wins[winner] || {}
+    wins[winner][loser] = (wins[winner][loser] || 0) + amount
+  }
+
+  outcomes.forEach((outcome) => {
+    const winner = modelOf(outcome.winner)
+    const loser = modelOf(outcome.loser)
+    // Two responses from the same model say nothing about the ranking
+    if (winner === loser) return
+
+    for (const model of [winner, loser]) {
+      stats[model] = stats[model] || { wins: 0, losses: 0, ties: 0, comparisons: 0 }
+      stats[model].comparisons++
+    }
+    if (outcome.tie) {
+      stats[winner].ties++
+      stats[loser].ties++
+      addWin(winner, loser, 0.5)
+      addWin(loser, winner, 0.5)
+    } else {
+      stats[winner].wins++
+      stats[loser].losses++
+      addWin(winner, loser, 1)
+    }
+  })
+
+  const models = Object.keys(stats)
+  const games = (a: string, b: string) => (wins[a]?.[b] || 0) + (wins[b]?.[a] || 0)
+
+  models.forEach((a) =>
+    models.forEach((b) => {
+      if (a < b && games(a, b) > 0) {
+        addWin(a, b, 0.5)
+        addWin(b, a, 0.5)
+      }
+    })
+  )
+
+  let strength: { [model: string]: number } = Object.fromEntries(models.map((model) => [model, 1]))
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next: { [model: string]: number } = {}
+    models.forEach((model) => {
+      const totalWins = Object.values(wins[model] || {}).reduce((sum, count) => sum + count, 0)
+      const denominator = models.reduce(
+        (sum, opponent) =>
+          opponent === model ? sum : sum + games(model, opponent) / (strength[model] + strength[opponent]),
+        0
+      )
+      next[model] = denominator > 0 ? totalWins / denominator : strength[model]
+    })
+
+    // Strengths are only defined up to a constant factor; pin the geometric mean to 1
+    const logMean = models.reduce((sum, model) => sum + Math.log(next[model]), 0) / models.length
+    models.forEach((model) => {
+      next[model] /= Math.exp(logMean)
+    })
+
+    const change = Math.max(...models.map((model) => Math.abs(next[model] - strength[model])))
+    strength = next
+    if (change < TOLERANCE) break
+  }
+
+  return models
+    .map((model) => ({
+      model,
+      rating: 1500 + 400 * Math.log10(strength[model]),
+      ...stats[model],
+    }))
+    .sort((a, b) => b.rating - a.rating)
+}
@@ -0,0 +1,70 @@
+// Small promise wrapper around the IndexedDB database that keeps evaluation
+// drafts and unsent score updates across reloads and crashes.
+
+const DB_NAME = 'xray-evaluator'
+const DB_VERSION = 1
+
+export const DRAFTS_STORE = 'drafts'
+export const OUTBOX_STORE = 'outbox'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'key' })
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a later call to try again, e.g. after the user closes a blocking tab
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function getRecord<T>(storeName: string, key: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, 'readonly', (store) => store.get(key))
+}
+
+export function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', (store) => store.getAll())
+}
+
+export async function putRecord<T extends { key: string }>(storeName: string, value: T): Promise<void> {
+  await run(storeName, 'readwrite', (store) => store.put(value))
+}
+
+export async function deleteRecord(storeName: string, key: string): Promise<void> {
+  await run(storeName, 'readwrite', (store) => store.delete(key))
+}
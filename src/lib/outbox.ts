@@ -0,0 +1,338 @@
+import { updateSingleEvaluation } from '@/services'
+import { invalidateScores } from '@/services/queries'
+import { ApiError, isRetryable } from '@/services/errors'
+import { OUTBOX_STORE, deleteRecord, getAllRecords, putRecord } from '@/lib/offline-db'
+import { DEMO_MODE } from '@/lib/demo'
+import useOutboxStore from '@/stores/outbox'
+import useSessionStore from '@/stores/session'
+
+export interface ScoreUpdate {
+  caseId: string
+  responseId: string
+  metricId: string
+  evaluatorId: string
+  // 0 clears the score
+  score: number
+  slot?: number
+}
+
+interface OutboxEntry extends ScoreUpdate {
+  key: string
+  queuedAt: number
+  attempts: number
+  nextAttemptAt: number
+  // Set when the server rejected the update; it then waits for a manual retry
+  failed?: boolean
+  error?: string
+}
+
+// The backend's answer to a score update: the case status and, until it is
+// complete, how many scores it still needs
+export interface SyncResult {
+  status?: string
+  progress?: { completed: number; total: number }
+}
+
+// How a submitted batch of scores fared
+export interface SubmitOutcome {
+  // The backend's answer to the last update, once every one has been sent
+  result: SyncResult | null
+  // Still queued and retried automatically (offline, server errors)
+  pending: number
+  // Rejected by the server; they wait for a manual retry
+  failed: number
+}
+
+type SyncListener = (update: ScoreUpdate, result: SyncResult) => void
+
+const MAX_BACKOFF = 60000
+
+// Used when IndexedDB can't be opened (e.g. private browsing), so updates are
+// still retried for the rest of the session
+const memoryOutbox = new Map<string, OutboxEntry>()
+const listeners = new Set<SyncListener>()
+// The flush in progress; a flush requested meanwhile joins it
+let currentFlush: Promise<void> | null = null
+let flushAgain = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+export function outboxKey(update: Pick<ScoreUpdate, 'evaluatorId' | 'caseId' | 'responseId' | 'metricId'>): string {
+  return `${update.evaluatorId}:${update.caseId}:${update.responseId}:${update.metricId}`
+}
+
+// Only the signed-in evaluator's updates are sent, with their own token;
+// another user's entries on a shared machine are left alone
+function isOwnEntry(entry: OutboxEntry): boolean {
+  return entry.evaluatorId === useSessionStore.getState().user?.id
+}
+
+async function readEntries(): Promise<OutboxEntry[]> {
+  try {
+    return await getAllRecords<OutboxEntry>(OUTBOX_STORE)
+  } catch {
+    return [...memoryOutbox.values()]
+  }
+}
+
+async function writeEntry(entry: OutboxEntry) {
+  try {
+    await putRecord(OUTBOX_STORE, entry)
+  } catch {
+    memoryOutbox.set(entry.key, entry)
+  }
+}
+
+// A newer score for the same cell may have been queued while this one was in flight
+async function isSuperseded(entry: OutboxEntry): Promise<boolean> {
+  const current = (await readEntries()).find((item) => item.key === entry.key)
+  return !!current && current.queuedAt !== entry.queuedAt
+}
+
+async function removeEntry(entry: OutboxEntry) {
+  try {
+    await deleteRecord(OUTBOX_STORE, entry.key)
+  } catch {
+    memoryOutbox.delete(entry.key)
+  }
+}
+
+function newEntry(update: ScoreUpdate): OutboxEntry {
+  const entry: OutboxEntry = {
+    ...update,
+    key: outboxKey(update),
+    queuedAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  }
+  useOutboxStore.getState().setCell(entry.key, { status: 'local', attempts: 0 })
+  return entry
+}
+
+// Network errors, timeouts and server errors are worth retrying; other
+// 4xx responses will fail the same way again
+function isTransient(error: unknown): boolean {
+  return !(error instanceof ApiError) || isRetryable(error)
+}
+
+function backoff(attempts: number): number {
+  const delay = Math.min(1000 * 2 ** attempts, MAX_BACKOFF)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+function scheduleRetry(entries: OutboxEntry[]) {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+
+  const pending = entries.filter((entry) => !entry.failed)
+  if (pending.length === 0) return
+
+  const nextAttemptAt = Math.min(...pending.map((entry) => entry.nextAttemptAt))
+  retryTimer = setTimeout(flushOutbox, Math.max(nextAttemptAt - Date.now(), 0))
+}
+
+async function sendEntry(entry: OutboxEntry): Promise<OutboxEntry | null> {
+  const { setCell } = useOutboxStore.getState()
+  const { caseId, responseId, metricId, evaluatorId, score, slot } = entry
+
+  try {
+    const result = await updateSingleEvaluation({ caseId, responseId, metricId, evaluatorId, score, slot })
+    if (await isSuperseded(entry)) {
+      flushAgain = true
+      return null
+    }
+    await removeEntry(entry)
+    setCell(entry.key, { status: 'synced', attempts: entry.attempts + 1 })
+    listeners.forEach((listener) => listener(entry, result || {}))
+    return null
+  } catch (error) {
+    if (await isSuperseded(entry)) {
+      flushAgain = true
+      return null
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    const failed = !isTransient(error)
+    const next: OutboxEntry = {
+      ...entry,
+      attempts: entry.attempts + 1,
+      nextAttemptAt: Date.now() + backoff(entry.attempts),
+      failed,
+      error: message,
+    }
+    await writeEntry(next)
+    setCell(entry.key, { status: failed ? 'failed' : 'local', attempts: next.attempts, error: message })
+    return next
+  }
+}
+
+async function runFlush(): Promise<void> {
+  // Cases with accepted updates; their queries are refetched once at the end
+  const sentCases = new Map<string, { caseId: string; evaluatorId: string }>()
+
+  do {
+    flushAgain = false
+    const entries = (await readEntries())
+      .filter(isOwnEntry)
+      .sort((a, b) => a.queuedAt - b.queuedAt)
+    const remaining: OutboxEntry[] = []
+    // Set after the first transient error: the rest would most likely time
+    // out the same way, so they wait for the same retry
+    let stalledUntil: number | null = null
+
+    for (const entry of entries) {
+      const isDue = !entry.failed && entry.nextAttemptAt <= Date.now()
+      if (!isDue) {
+        remaining.push(entry)
+      } else if (stalledUntil !== null) {
+        remaining.push({ ...entry, nextAttemptAt: stalledUntil })
+      } else {
+        const next = await sendEntry(entry)
+        if (!next) {
+          sentCases.set(`${entry.evaluatorId}:${entry.caseId}`, { caseId: entry.caseId, evaluatorId: entry.evaluatorId })
+        } else {
+          remaining.push(next)
+          if (!next.failed) stalledUntil = next.nextAttemptAt
+        }
+      }
+    }
+
+    scheduleRetry(remaining)
+  } while (flushAgain)
+
+  sentCases.forEach(({ caseId, evaluatorId }) => invalidateScores(caseId, evaluatorId))
+}
+
+// Sends every due update, oldest first, then schedules the next retry.
+// Resolves once updates queued before the call have been tried. Nothing is
+// sent in demo mode.
+export function flushOutbox(): Promise<void> {
+  if (DEMO_MODE) return Promise.resolve()
+  if (currentFlush) {
+    flushAgain = true
+    return currentFlush
+  }
+  currentFlush = runFlush().finally(() => {
+    currentFlush = null
+  })
+  return currentFlush
+}
+
+// Stores a score change locally first, then tries to send it. A newer change
+// to the same cell replaces an unsent one. In demo mode scores are against
+// demo metrics, so they stay in the evaluation store and are never queued.
+export async function queueScoreUpdate(update: ScoreUpdate): Promise<void> {
+  if (DEMO_MODE) return
+
+  await writeEntry(newEntry(update))
+  await flushOutbox()
+}
+
+// Queues all of a case's scores, e.g. on submit, and sends them in one flush.
+// Resolves with the backend's answer to the last one, or with how many are
+// still waiting in the outbox and how many the server rejected.
+export async function queueScoreUpdates(updates: ScoreUpdate[]): Promise<SubmitOutcome> {
+  if (DEMO_MODE || updates.length === 0) return { result: null, pending: 0, failed: 0 }
+
+  const entries = updates.map(newEntry)
+  const keys = new Set(entries.map((entry) => entry.key))
+  let lastResult: SyncResult | null = null
+  const unsubscribe = onScoreSynced((update, result) => {
+    if (keys.has(outboxKey(update))) lastResult = result
+  })
+
+  try {
+    await Promise.all(entries.map(writeEntry))
+    await flushOutbox()
+  } finally {
+    unsubscribe()
+  }
+
+  const unsent = (await readEntries()).filter((entry) => keys.has(entry.key))
+  const failed = unsent.filter((entry) => entry.failed).length
+  return {
+    result: unsent.length === 0 ? lastResult : null,
+    pending: unsent.length - failed,
+    failed,
+  }
+}
+
+// Manual retry for updates the server rejected
+export async function retryScoreUpdate(key: string): Promise<void> {
+  const entry = (await readEntries()).find((item) => item.key === key)
+  if (!entry || !isOwnEntry(entry)) return
+  await writeEntry({ ...entry, failed: false, nextAttemptAt: 0 })
+  useOutboxStore.getState().setCell(key, { status: 'local', attempts: entry.attempts })
+  await flushOutbox()
+}
+
+// Unsent scores for a case, so a reload can restore them over the server's values
+export async function getPendingUpdates(evaluatorId: string, caseId: string): Promise<ScoreUpdate[]> {
+  return (await readEntries()).filter(
+    (entry) => entry.evaluatorId === evaluatorId && entry.caseId === caseId
+  )
+}
+
+// How many of an evaluator's updates are still waiting, retried or rejected
+export async function countUnsentUpdates(evaluatorId: string): Promise<number> {
+  return (await readEntries()).filter((entry) => entry.evaluatorId === evaluatorId).length
+}
+
+// Drops an evaluator's unsent updates, e.g. when they sign out, so they
+// can't be sent later under someone else's session
+export async function clearOutbox(evaluatorId: string): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+
+  const entries = (await readEntries()).filter((entry) => entry.evaluatorId === evaluatorId)
+  await Promise.all(
+    entries.map(async (entry) => {
+      memoryOutbox.delete(entry.key)
+      try {
+        await deleteRecord(OUTBOX_STORE, entry.key)
+      } catch {
+        // Only in memory, already gone
+      }
+    })
+  )
+  useOutboxStore.getState().clearCells(evaluatorId)
+}
+
+export function onScoreSynced(listener: SyncListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Restores the status of queued cells after a reload and keeps retrying while
+// the app is open. Returns a cleanup function.
+export function startOutbox(): () => void {
+  readEntries().then((entries) => {
+    const { setCell } = useOutboxStore.getState()
+    entries.filter(isOwnEntry).forEach((entry) =>
+      setCell(entry.key, {
+        status: entry.failed ? 'failed' : 'local',
+        attempts: entry.attempts,
+        error: entry.error,
+      })
+    )
+    flushOutbox()
+  })
+
+  // Coming back online shouldn't wait for the backoff timer
+  const handleOnline = () => {
+    readEntries().then((entries) =>
+      Promise.all(
+        entries
+          .filter((entry) => isOwnEntry(entry) && !entry.failed)
+          .map((entry) => writeEntry({ ...entry, nextAttemptAt: 0 }))
+      )
+    ).then(flushOutbox)
+  }
+
+  window.addEventListener('online', handleOnline)
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+  }
+}
@@ -0,0 +1,38 @@
+import { QueryCache, QueryClient } from '@tanstack/react-query'
+import { toast } from '@/hooks/use-toast'
+import { translate } from '@/lib/i18n'
+import { ApiError, errorMessageKey } from '@/services/errors'
+import useLocaleStore, { userLocale } from '@/stores/locale'
+import useSessionStore from '@/stores/session'
+
+// A first load that fails shows an error with a retry button in the page. A
+// background refetch that fails leaves the cached data on screen, so the
+// user is told with a toast instead.
+function notifyRefetchError(error: Error, hasData: boolean) {
+  if (!hasData || (error instanceof ApiError && error.kind === 'cancelled')) return
+  // A 401 signs the user out, and the login page says why
+  if (error instanceof ApiError && error.status === 401) return
+
+  const locale = userLocale(useLocaleStore.getState(), useSessionStore.getState().user?.id ?? null)
+  toast({
+    title: translate(locale, 'common.error'),
+    description: translate(locale, errorMessageKey(error)),
+    variant: 'destructive',
+  })
+}
+
+// Shared so code outside components (the outbox, sign-in / sign-out) can
+// invalidate or clear cached queries
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => notifyRefetchError(error, query.state.data !== undefined),
+  }),
+  defaultOptions: {
+    queries: {
+      // Metrics, models and case lists rarely change during a session
+      staleTime: 5 * 60 * 1000,
+      // The API client already retries GETs that may succeed a second time
+      retry: false,
+    },
+  },
+})
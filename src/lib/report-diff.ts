@@ -0,0 +1,99 @@
+import { TextSegment, reportSentences } from '@/lib/report-text'
+import { ParsedReport } from '@/types'
+
+export type SentenceDiffStatus = 'match' | 'addition' | 'contradiction'
+
+export interface AlignedSentence {
+  section: 'findings' | 'impressions'
+  sentence: TextSegment
+  status: SentenceDiffStatus
+  // Index into reportSentences(groundTruth), null for additions
+  groundTruthIndex: number | null
+  similarity: number
+}
+
+export interface ReportDiff {
+  sentences: AlignedSentence[]
+  // Ground truth sentences no model sentence was aligned to
+  omissions: number[]
+}
+
+// Below this overlap a model sentence is treated as new content
+const MATCH_THRESHOLD = 0.3
+
+const NEGATION_CUES = ['no', 'not', 'without', 'negative', 'absent', 'absence', 'free', 'resolved', 'unremarkable']
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'at', 'to', 'is', 'are', 'was', 'were', 'be', 'been',
+  'with', 'for', 'as', 'by', 'this', 'that', 'there', 'these', 'it', 'its', 'seen', 'noted', 'evidence',
+  'identified', 'present', 'demonstrated', 'appears', 'again', 'any', 'also',
+])
+
+// Letters, combining marks and digits of any script, so translated reports
+// (e.g. Devanagari vowel signs) aren't split into fragments or dropped
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || []
+}
+
+// Content words, without negation cues so "no effusion" and "effusion" overlap fully
+function contentWords(text: string): Set<string> {
+  return new Set(words(text).filter((word) => !STOP_WORDS.has(word) && !NEGATION_CUES.includes(word)))
+}
+
+function isNegated(text: string): boolean {
+  return words(text).some((word) => NEGATION_CUES.includes(word))
+}
+
+// Dice coefficient of two word sets
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach((word) => {
+    if (b.has(word)) shared++
+  })
+  return (2 * shared) / (a.size + b.size)
+}
+
+// Aligns each findings / impression sentence of a model response to its
+// closest ground truth sentence, whichever section that is in. Aligned pairs
+// where only one side is negated are contradictions; unaligned model
+// sentences are additions and unaligned ground truth sentences are omissions.
+export function diffReport(groundTruth: ParsedReport, response: ParsedReport): ReportDiff {
+  const reference = reportSentences(groundTruth).map(({ sentence }) => ({
+    text: sentence.text,
+    words: contentWords(sentence.text),
+    negated: isNegated(sentence.text),
+  }))
+  const covered = new Set<number>()
+
+  const sentences = reportSentences(response).map(({ section, sentence }): AlignedSentence => {
+    const sentenceWords = contentWords(sentence.text)
+    let bestIndex: number | null = null
+    let bestSimilarity = 0
+    reference.forEach((item, index) => {
+      const similarity = overlap(sentenceWords, item.words)
+      if (similarity > bestSimilarity) {
+        bestIndex = index
+        bestSimilarity = similarity
+      }
+    })
+
+    if (bestIndex === null || bestSimilarity < MATCH_THRESHOLD) {
+      return { section, sentence, status: 'addition', groundTruthIndex: null, similarity: bestSimilarity }
+    }
+
+    covered.add(bestIndex)
+    return {
+      section,
+      sentence,
+      status: reference[bestIndex].negated !== isNegated(sentence.text) ? 'contradiction' : 'match',
+      groundTruthIndex: bestIndex,
+      similarity: bestSimilarity,
+    }
+  })
+
+  return {
+    sentences,
+    omissions: reference.map((_, index) => index).filter((index) => !covered.has(index)),
+  }
+}
@@ -0,0 +1,131 @@
+import { ParsedReport, ReportSectionName } from '@/types'
+
+// Shared by ground truth and model responses, so both are shown and compared
+// section by section. Accepts structured objects, JSON strings (optionally in
+// a ```json fence), and free text or markdown with "FINDINGS:" style headings.
+
+// Display order; headings are translated as sections.<name>
+export const REPORT_SECTIONS: ReportSectionName[] = ['technique', 'comparison', 'findings', 'impressions']
+
+// Heading / key spellings for each section, lowercase
+const SECTION_ALIASES: { [name in ReportSectionName]: string[] } = {
+  technique: ['technique', 'techniques', 'procedure', 'exam', 'examination', 'view', 'views'],
+  comparison: ['comparison', 'comparisons', 'prior', 'priors', 'prior studies'],
+  findings: ['findings', 'finding', 'report', 'description'],
+  impressions: ['impression', 'impressions', 'conclusion', 'conclusions', 'summary', 'assessment'],
+}
+
+// Start of a line, optional markdown heading/bold, a known heading, then a
+// colon or the end of the line
+const HEADING_PATTERN = new RegExp(
+  `^[ \\t]*(?:#{1,6}[ \\t]*)?(?:\\*\\*|__)?(${Object.values(SECTION_ALIASES)
+    .flat()
+    .join('|')})(?:\\*\\*|__)?[ \\t]*(?::(?:\\*\\*|__)?|$)`,
+  'gim'
+)
+
+const EMPTY_REPORT: ParsedReport = { findings: '', impressions: '' }
+
+function sectionFor(heading: string): ReportSectionName | null {
+  const key = heading.trim().toLowerCase()
+  const match = (Object.keys(SECTION_ALIASES) as ReportSectionName[]).find((name) =>
+    SECTION_ALIASES[name].includes(key)
+  )
+  return match || null
+}
+
+// Drops markdown emphasis and list markers but keeps line breaks
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/^[ \t]*#{1,6}[ \t]+/, '')
+        .replace(/^[ \t]*(?:[-*+•]|\d+[.)])[ \t]+/, '')
+        .replace(/\*\*|__/g, '')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n')
+}
+
+function valueText(value: unknown): string {
+  if (typeof value === 'string') return cleanText(value)
+  if (Array.isArray(value)) return value.map(valueText).filter(Boolean).join('\n')
+  if (value && typeof value === 'object') return valueText(Object.values(value))
+  return value === null || value === undefined ? '' : String(value)
+}
+
+function parseObject(data: { [key: string]: unknown }): ParsedReport {
+  // Model outputs sometimes wrap the report, e.g. { "report": { ... } }
+  const nested = Object.values(data).find((value) => value && typeof value === 'object' && !Array.isArray(value))
+  const sections: ParsedReport = { ...EMPTY_REPORT }
+  let matched = false
+
+  Object.entries(data).forEach(([key, value]) => {
+    const name = sectionFor(key.replace(/_/g, ' '))
+    if (!name || (typeof value === 'object' && value !== null && !Array.isArray(value))) return
+    const text = valueText(value)
+    if (!text) return
+    sections[name] = sections[name] ? `${sections[name]}\n${text}` : text
+    matched = true
+  })
+
+  if (!matched && nested) return parseObject(nested as { [key: string]: unknown })
+  return sections
+}
+
+function parseText(text: string): ParsedReport {
+  const sections: ParsedReport = { ...EMPTY_REPORT }
+  const headings = [...text.matchAll(HEADING_PATTERN)]
+
+  if (headings.length === 0) {
+    return { ...sections, findings: cleanText(text) }
+  }
+
+  // Anything before the first heading is treated as findings
+  const preamble = cleanText(text.slice(0, headings[0].index))
+  if (preamble) sections.findings = preamble
+
+  headings.forEach((heading, index) => {
+    const name = sectionFor(heading[1]) as ReportSectionName
+    const start = (heading.index as number) + heading[0].length
+    const end = index + 1 < headings.length ? headings[index + 1].index : text.length
+    const content = cleanText(text.slice(start, end))
+    if (!content) return
+    sections[name] = sections[name] ? `${sections[name]}\n${content}` : content
+  })
+
+  return sections
+}
+
+function unfence(text: string): string {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i)
+  return fenced ? fenced[1] : text
+}
+
+export function parseReport(raw: unknown): ParsedReport {
+  if (raw === null || raw === undefined) return { ...EMPTY_REPORT }
+  if (typeof raw === 'object' && !Array.isArray(raw)) {
+    return parseObject(raw as { [key: string]: unknown })
+  }
+
+  const text = unfence(String(raw).trim())
+  if (text.startsWith('{')) {
+    try {
+      return parseObject(JSON.parse(text))
+    } catch (error) {
+      // Not valid JSON after all; read it as text
+      console.warn('Could not parse report as JSON, reading it as text:', error)
+    }
+  }
+  return parseText(text)
+}
+
+// Sections that have text, in display order. Findings and impression are
+// always included so every panel has the same layout.
+export function reportSections(report: ParsedReport): { name: ReportSectionName; text: string }[] {
+  return REPORT_SECTIONS
+    .map((name) => ({ name, text: report[name] || '' }))
+    .filter((section) => section.text || section.name === 'findings' || section.name === 'impressions')
+}
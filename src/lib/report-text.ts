@@ -0,0 +1,52 @@
+import { ParsedReport, SpanSeverity } from '@/types'
+
+export interface TextSegment {
+  text: string
+  start: number
+  end: number
+}
+
+export const SPAN_SEVERITIES: SpanSeverity[] = ['minor', 'major', 'critical']
+
+export const SEVERITY_RANK: { [severity in SpanSeverity]: number } = {
+  minor: 0,
+  major: 1,
+  critical: 2,
+}
+
+// Highlight colours, shared by the report text and the severity picker
+export const SEVERITY_STYLES: { [severity in SpanSeverity]: string } = {
+  minor: 'bg-yellow-400/25 decoration-yellow-400',
+  major: 'bg-orange-500/30 decoration-orange-500',
+  critical: 'bg-red-500/35 decoration-red-500',
+}
+
+// Splits report text into sentences, keeping character offsets into the
+// original string. Line breaks (e.g. from list items) and the Devanagari danda
+// ("।", "॥") end a sentence, decimal numbers ("2.5 cm") don't.
+export function splitSentences(text: string): TextSegment[] {
+  const sentences: TextSegment[] = []
+  const pattern = /(?:[^.!?।॥\n]|[.!?](?=\d))+(?:[.!?।॥]+|$)/gm
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length
+    const trimmed = match[0].trim()
+    if (trimmed) {
+      const start = match.index + leading
+      sentences.push({ text: trimmed, start, end: start + trimmed.length })
+    }
+  }
+
+  return sentences
+}
+
+// Sentences numbered across findings, then impressions, which is how report
+// spans refer to ground truth sentences. Technique and comparison are left
+// out; they don't say anything about the patient.
+export function reportSentences(report: ParsedReport): { section: 'findings' | 'impressions'; sentence: TextSegment }[] {
+  return [
+    ...splitSentences(report.findings || '').map((sentence) => ({ section: 'findings' as const, sentence })),
+    ...splitSentences(report.impressions || '').map((sentence) => ({ section: 'impressions' as const, sentence })),
+  ]
+}
@@ -27,6 +27,36 @@ export function shuffle<T>(array: T[]): T[] {
   return array
 }
 
+// Deterministic PRNG (mulberry32) seeded from a string hash, so the same seed
+// always gives the same sequence
+function seededRandom(seed: string): () => number {
+  let h = 1779033703 ^ seed.length
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353)
+    h = (h << 13) | (h >>> 19)
+  }
+
+  let state = h >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Fisher–Yates Shuffle with a seeded PRNG
+export function seededShuffle<T>(array: T[], seed: string): T[] {
+  const random = seededRandom(seed)
+  for (let m = array.length - 1; m > 0; m--) {
+    const i = Math.floor(random() * (m + 1))
+    const t = array[m]
+    array[m] = array[i]
+    array[i] = t
+  }
+  return array
+}
+
 export function addEmptyMetrics(
   evaluations: Evaluation[],
   stockMetrics
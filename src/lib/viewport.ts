@@ -0,0 +1,141 @@
+// Pan/zoom state for the X-ray viewer, stored relative to the image so that
+// viewers of different sizes (inline panel, full-screen dialog) can share it
+export type FitMode = 'contain' | 'width' | 'height' | 'pixel'
+
+export interface Viewport {
+  // When set, the scale is derived from the container instead of `zoom`
+  fit: FitMode | null
+  // Magnification relative to the "contain" fit
+  zoom: number
+  // Image point shown in the middle of the container, normalized to 0-1
+  centerX: number
+  centerY: number
+}
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export interface Region {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const MIN_ZOOM = 0.5
+export const MAX_ZOOM = 16
+
+export const DEFAULT_VIEWPORT: Viewport = {
+  fit: 'contain',
+  zoom: 1,
+  centerX: 0.5,
+  centerY: 0.5,
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max)
+
+function containScale(container: Size, image: Size): number {
+  if (!image.width || !image.height) return 1
+  return Math.min(container.width / image.width, container.height / image.height)
+}
+
+// CSS pixels per image pixel
+export function resolveScale(viewport: Viewport, container: Size, image: Size): number {
+  switch (viewport.fit) {
+    case 'contain':
+      return containScale(container, image)
+    case 'width':
+      return container.width / image.width
+    case 'height':
+      return container.height / image.height
+    case 'pixel':
+      return 1 / (window.devicePixelRatio || 1)
+    default:
+      return containScale(container, image) * viewport.zoom
+  }
+}
+
+// Position of the image's top-left corner inside the container
+export function imageOffset(
+  viewport: Viewport,
+  container: Size,
+  image: Size
+): { x: number; y: number; scale: number } {
+  const scale = resolveScale(viewport, container, image)
+  return {
+    x: container.width / 2 - viewport.centerX * image.width * scale,
+    y: container.height / 2 - viewport.centerY * image.height * scale,
+    scale,
+  }
+}
+
+export function fitViewport(fit: FitMode, current: Viewport): Viewport {
+  return {
+    ...current,
+    fit,
+    centerX: fit === 'contain' ? 0.5 : current.centerX,
+    centerY: fit === 'contain' ? 0.5 : current.centerY,
+  }
+}
+
+// Zoom by `factor`, keeping the image point under `point` (container coords) fixed
+export function zoomAt(
+  viewport: Viewport,
+  container: Size,
+  image: Size,
+  factor: number,
+  point?: { x: number; y: number }
+): Viewport {
+  const base = containScale(container, image)
+  const { x, y, scale } = imageOffset(viewport, container, image)
+  const zoom = clamp((scale / base) * factor, MIN_ZOOM, MAX_ZOOM)
+  const nextScale = base * zoom
+  const anchor = point ?? { x: container.width / 2, y: container.height / 2 }
+
+  const imageX = (anchor.x - x) / scale
+  const imageY = (anchor.y - y) / scale
+  const nextX = anchor.x - imageX * nextScale
+  const nextY = anchor.y - imageY * nextScale
+
+  return {
+    fit: null,
+    zoom,
+    centerX: clamp((container.width / 2 - nextX) / (image.width * nextScale), 0, 1),
+    centerY: clamp((container.height / 2 - nextY) / (image.height * nextScale), 0, 1),
+  }
+}
+
+export function panBy(
+  viewport: Viewport,
+  container: Size,
+  image: Size,
+  dx: number,
+  dy: number
+): Viewport {
+  const scale = resolveScale(viewport, container, image)
+  return {
+    fit: null,
+    zoom: scale / containScale(container, image),
+    centerX: clamp(viewport.centerX - dx / (image.width * scale), 0, 1),
+    centerY: clamp(viewport.centerY - dy / (image.height * scale), 0, 1),
+  }
+}
+
+// Part of the image currently visible, normalized to 0-1
+export function visibleRegion(viewport: Viewport, container: Size, image: Size): Region {
+  const { x, y, scale } = imageOffset(viewport, container, image)
+  const left = clamp(-x / (image.width * scale), 0, 1)
+  const top = clamp(-y / (image.height * scale), 0, 1)
+  const right = clamp((container.width - x) / (image.width * scale), 0, 1)
+  const bottom = clamp((container.height - y) / (image.height * scale), 0, 1)
+
+  return {
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+  }
+}
@@ -0,0 +1,32 @@
+import { GrayImage, grayImageFromBitmap } from '@/lib/imaging'
+import { DicomHeader, decodeDicom, isDicom, looksLikeDicomUrl } from '@/lib/dicom'
+
+export interface LoadedXray {
+  image: GrayImage
+  // Only present for DICOM sources
+  header?: DicomHeader
+}
+
+// Fetches an X-ray and decodes it to grayscale pixels. DICOM is detected from
+// the file's magic bytes (or a .dcm URL), anything else is left to the browser.
+// Rejects with a TypeError when the server doesn't allow CORS access.
+export async function loadXrayImage(url: string, signal?: AbortSignal): Promise<LoadedXray> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to load image (${response.status})`)
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  const contentType = response.headers.get('content-type') || ''
+
+  if (isDicom(bytes) || contentType.includes('application/dicom') || looksLikeDicomUrl(url)) {
+    return decodeDicom(bytes)
+  }
+
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: contentType || undefined }))
+  try {
+    return { image: grayImageFromBitmap(bitmap) }
+  } finally {
+    bitmap.close()
+  }
+}
@@ -1,98 +1,23 @@
-import { getEvaluatorCasesWithDetails, getUserDetails } from '@/services'
-import { useState, useEffect } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
+import { useAssignedCases } from '@/services/queries'
+import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
-import { AlertCircle, User, Loader2 } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
-
-interface CaseWithDetails {
-  id: string
-  image_id: string
-  image_url: string
-  status: string
-  completed_evaluations: number
-  total_evaluations: number
-  last_updated: string
-}
-
-interface CasesResponse {
-  cases: CaseWithDetails[]
-  total_cases: number
-  pending_cases: number
-  in_progress_cases: number
-  completed_cases: number
-}
+import { QueryError } from '@/components/QueryState'
+import useAuth from '@/hooks/use-auth'
+import useTranslation from '@/hooks/use-translation'
+import { LanguagePicker } from '@/components/LanguagePicker'
+import { SignOutButton } from '@/components/SignOutButton'
 
 function DoctorCases() {
-  const { doctorId } = useParams()
-  const [casesData, setCasesData] = useState<CasesResponse | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
-  const [doctorInfo, setDoctorInfo] = useState({ name: 'Loading...', specialty: '' })
+  const { user } = useAuth()
+  const doctorId = user?.id
+  const { data: casesData, isPending: loading, error, refetch } = useAssignedCases(doctorId ?? null)
   const navigate = useNavigate()
-  
-  useEffect(() => {
-    let isMounted = true;
-
-    async function fetchData() {
-      if (!doctorId) return
-      
-      setLoading(true)
-      setError('')
-      
-      try {
-        // Fetch doctor details and cases concurrently
-        const [details, casesResponse] = await Promise.all([
-          getUserDetails(doctorId),
-          getEvaluatorCasesWithDetails(doctorId)
-        ]);
-
-        if (!isMounted) return;
-
-        console.log('Doctor details:', details);
-        console.log('Cases data:', casesResponse);
-        
-        // Set doctor info
-        if (details && details.name) {
-          setDoctorInfo({
-            name: details.name,
-            specialty: details.role || ''
-          });
-        } else {
-          setDoctorInfo({ 
-            name: `Doctor ${doctorId.substring(0, 8)}`,
-            specialty: 'Evaluator'
-          });
-        }
-
-        // Set cases data
-        setCasesData(casesResponse);
-      } catch (err) {
-        console.error('Error fetching data:', err);
-        if (!isMounted) return;
-        setError('Failed to fetch data. Please check your connection and try again.');
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
-      }
-    }
-    
-    fetchData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [doctorId]);
+  const { t, formatDate } = useTranslation()
 
   function navigateToCase(caseId: string) {
-    navigate(`/rad/${caseId}?doctorId=${doctorId}`);
-  }
-
-  function goBack() {
-    navigate('/');
+    navigate(`/rad/${caseId}`);
   }
 
   // Loading skeleton
@@ -113,7 +38,7 @@ function DoctorCases() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Assigned Cases</CardTitle>
+            <CardTitle>{t('doctorCases.assignedCases')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -133,33 +58,39 @@ function DoctorCases() {
         <CardHeader>
           <div className="flex justify-between items-center">
             <div>
-              <CardTitle>{doctorInfo.name}</CardTitle>
-              <CardDescription>{doctorInfo.specialty}</CardDescription>
+              <CardTitle>
+                {user?.name || t('doctorCases.fallbackName', { id: doctorId?.substring(0, 8) })}
+              </CardTitle>
+              <CardDescription>{t('doctorCases.evaluator')}</CardDescription>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguagePicker />
+              <SignOutButton />
             </div>
-            <Button variant="outline" onClick={goBack}>Back to Login</Button>
           </div>
         </CardHeader>
       </Card>
 
       <Card>
         <CardHeader>
-          <CardTitle>Assigned Cases</CardTitle>
+          <CardTitle>{t('doctorCases.assignedCases')}</CardTitle>
           <CardDescription>
-            {casesData?.total_cases || 0} total cases ({casesData?.completed_cases || 0} completed, {casesData?.in_progress_cases || 0} in progress, {casesData?.pending_cases || 0} pending)
+            {t('doctorCases.summary', {
+              count: casesData?.total_cases || 0,
+              completed: casesData?.completed_cases || 0,
+              inProgress: casesData?.in_progress_cases || 0,
+              pending: casesData?.pending_cases || 0
+            })}
           </CardDescription>
         </CardHeader>
         <CardContent>
           {error && (
-            <Alert variant="destructive" className="mb-4">
-              <AlertCircle className="h-4 w-4" />
-              <AlertTitle>Error</AlertTitle>
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
+            <QueryError className="mb-4" message={t('doctorCases.fetchError')} error={error} onRetry={() => refetch()} />
           )}
           
           {(!casesData?.cases || casesData.cases.length === 0) && !error && (
             <div className="text-center py-8 text-muted-foreground">
-              <p>No cases are currently assigned to you.</p>
+              <p>{t('doctorCases.noCases')}</p>
             </div>
           )}
           
@@ -174,10 +105,16 @@ function DoctorCases() {
                   <div className="flex justify-between items-center">
                     <div>
                       <div className="font-medium group-hover:text-white">
-                        Case {index + 1}: {caseItem.image_id}
+                        {t('doctorCases.caseTitle', { number: index + 1, imageId: caseItem.image_id })}
                       </div>
                       <div className="text-sm text-muted-foreground mt-1 group-hover:text-white/70">
-                        Progress: {caseItem.completed_evaluations} of {caseItem.total_evaluations} evaluations completed
+                        {t('doctorCases.progress', {
+                          completed: caseItem.completed_evaluations,
+                          total: caseItem.total_evaluations
+                        })}
+                        {caseItem.last_updated && (
+                          <> · {t('doctorCases.lastUpdated', { date: formatDate(caseItem.last_updated) })}</>
+                        )}
                       </div>
                     </div>
                     <div className={`px-3 py-1 rounded-full text-sm ${
@@ -187,7 +124,7 @@ function DoctorCases() {
                         ? 'bg-blue-100 text-blue-800 group-hover:bg-blue-200'
                         : 'bg-gray-100 text-gray-800 group-hover:bg-gray-200'
                     }`}>
-                      {caseItem.status.replace('_', ' ')}
+                      {t(`status.${caseItem.status}`)}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,50 @@
+import { useEffect } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { ShieldAlert } from 'lucide-react'
+import { homePath } from '@/lib/auth'
+import useAuth from '@/hooks/use-auth'
+import useTranslation from '@/hooks/use-translation'
+import { SignOutButton } from '@/components/SignOutButton'
+
+interface Props {
+  // Why access was refused, defaults to a generic message
+  message?: string
+}
+
+const Forbidden = ({ message }: Props) => {
+  const location = useLocation()
+  const { user } = useAuth()
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    console.error(
+      '403 Error: User attempted to access a page their role does not allow:',
+      location.pathname
+    )
+  }, [location.pathname])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-medical-darkest-gray">
+      <div className="text-center max-w-md p-6 rounded-lg border border-medical-dark-gray/30 bg-medical-darker-gray/70">
+        <div className="flex justify-center mb-4">
+          <ShieldAlert size={64} className="text-medical-blue" />
+        </div>
+        <h1 className="text-4xl font-bold mb-4 text-medical-blue">403</h1>
+        <p className="text-xl text-gray-300 mb-6">
+          {message || (user && !user.role ? t('forbidden.unknownRole') : t('forbidden.message'))}
+        </p>
+        <div className="flex justify-center gap-3">
+          {user?.role && (
+            <Button className="bg-medical-blue hover:bg-medical-dark-blue" asChild>
+              <Link to={homePath(user)}>{t('forbidden.home')}</Link>
+            </Button>
+          )}
+          <SignOutButton />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Forbidden
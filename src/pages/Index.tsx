@@ -1,30 +1,69 @@
 import React, { useEffect, useState } from 'react'
-import { Settings } from 'lucide-react'
+import { Settings, ChevronLeft, ChevronRight, FlaskConical } from 'lucide-react'
 import { ImageViewer } from '@/components/ImageViewer'
-import { ReportPanel } from '@/components/ReportPanel'
+import { ReportGrid } from '@/components/ReportGrid'
 import { EvaluationMetrics } from '@/components/EvaluationMetrics'
-import { addEmptyMetrics, shuffle } from '@/lib/utils'
-import { Record, Metric } from '@/types'
+import { PreferenceInput } from '@/components/PreferenceInput'
+import { addEmptyMetrics } from '@/lib/utils'
+import { SlotMap, blindSlots, sortBySlot } from '@/lib/blinding'
+import { expandLanguageMetrics, metricAppliesTo, recordLanguages, reportLanguages, variantMetricId } from '@/lib/languages'
+import { Record, Metric, ErrorTag, EvaluationMode, ReportSectionName } from '@/types'
 import useEvalutationStore from '@/stores/evaluation'
 import { Button } from '@/components/ui/button'
-import { setRecords, getMetrics, getUserDetails, getExistingEvaluations, updateSingleEvaluation } from '@/services'
+import {
+  getResponseFeedback,
+  updateResponseFeedback,
+  submitPreference
+} from '@/services'
+import { useErrorTags, useMetrics, fetchCaseAssignments, fetchCaseEvaluations, invalidatePreferences } from '@/services/queries'
 import { useToast } from '@/hooks/use-toast'
+import useCaseNavigation from '@/hooks/use-case-navigation'
+import useEvaluationDraft from '@/hooks/use-evaluation-draft'
+import useCasePreference from '@/hooks/use-case-preference'
+import { loadDraft } from '@/lib/evaluation-drafts'
+import { getPendingUpdates, queueScoreUpdates } from '@/lib/outbox'
+import usePreferencesStore from '@/stores/preferences'
+import { Switch } from '@/components/ui/switch'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { LanguagePicker } from '@/components/LanguagePicker'
+import { QueryError } from '@/components/QueryState'
+import { errorMessageKey } from '@/services/errors'
+import { DEMO_MODE } from '@/lib/demo'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import useTranslation from '@/hooks/use-translation'
+import useAuth from '@/hooks/use-auth'
 import { useNavigate } from 'react-router-dom'
 
 interface Props {
   records: Record[]
 }
 
+function casePath(caseId: string): string {
+  return `/rad/${caseId}`
+}
+
+// Stable fallbacks while queries load, so effects depending on them don't rerun
+const NO_METRICS: Metric[] = []
+const NO_ERROR_TAGS: ErrorTag[] = []
+
 const Index = (props: Props) => {
   const { records } = props
   const [isSubmitting, setIsSubmitting] = useState(false)
   const { toast } = useToast()
-  const [doctorName, setDoctorName] = useState<string>('')
-  const [metrics, setMetrics] = useState<Metric[]>([
-    { id: '0', name: 'Loading...', description: 'Loading metrics...' }
-  ])
+  const { t } = useTranslation()
+  const { user } = useAuth()
+  const metricsQuery = useMetrics()
+  const metrics = metricsQuery.data ?? NO_METRICS
+  // Failed to load, or none are configured: scoring is blocked until retried
+  const metricsUnavailable = metricsQuery.isError || metricsQuery.data?.length === 0
+  const errorTags = useErrorTags().data ?? NO_ERROR_TAGS
 
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
+  const [studyImageIndex, setStudyImageIndex] = useState(0)
+  const [hoveredResponseId, setHoveredResponseId] = useState<string | null>(null)
+  const [focusedSection, setFocusedSection] = useState<ReportSectionName | null>(null)
+  // Blinded slots saved with earlier scores for this case, see blindModelOrder
+  const [storedSlots, setStoredSlots] = useState<SlotMap>({})
   const initId = useEvalutationStore((state) => state.initAtId)
   const doneForId = useEvalutationStore((state) => state.doneForId)
   const setDoneForId = useEvalutationStore((state) => state.setDoneForId)
@@ -58,74 +97,60 @@ const Index = (props: Props) => {
     }
   }, [resetDoneStatus]);
 
-  useEffect(() => {
-    const fetchMetrics = async () => {
-      console.log("Starting metrics fetch");
-      try {
-        console.log("Calling getMetrics API");
-        const metricsData = await getMetrics();
-        console.log("Raw metrics data from API:", metricsData);
-        
-        if (!metricsData || metricsData.length === 0) {
-          console.error("No metrics returned from API");
-          toast({
-            title: "Error",
-            description: "No metrics found. Please contact support.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Transform backend metrics to the format expected by the component
-        const formattedMetrics: Metric[] = metricsData.map(metric => ({
-          id: metric.id,
-          name: metric.name,
-          description: metric.description || ''
-        }));
-        
-        console.log("Setting formatted metrics:", formattedMetrics);
-        setMetrics(formattedMetrics);
-        console.log("Fetched metrics from backend:", formattedMetrics);
-      } catch (error) {
-        console.error("Error fetching metrics:", error);
-        toast({
-          title: "Error",
-          description: "Failed to load metrics from the backend",
-          variant: "destructive",
-        });
-      }
-    };
-    
-    console.log("Setting up metrics fetch");
-    fetchMetrics();
-  }, [toast]);
+  const evaluatorId = user?.id ?? null
+  const caseNavigation = useCaseNavigation(
+    records?.[currentImageIndex]?.id || '',
+    evaluatorId,
+    records?.[currentImageIndex]?.navigation
+  )
+  useEvaluationDraft(records?.[currentImageIndex]?.id || '', evaluatorId)
+  const autoAdvance = usePreferencesStore((state) => state.autoAdvance)
+  const setAutoAdvance = usePreferencesStore((state) => state.setAutoAdvance)
+  const evaluationMode = usePreferencesStore((state) => state.evaluationMode)
+  const setEvaluationMode = usePreferencesStore((state) => state.setEvaluationMode)
+  const comparativeMode = evaluationMode === 'likert' ? null : evaluationMode
+  const casePreference = useCasePreference(
+    records?.[currentImageIndex]?.id || '',
+    evaluatorId,
+    comparativeMode
+  )
+
+  const goToCase = (caseId: string | null) => {
+    if (!caseId) return
+    navigate(casePath(caseId))
+  }
+
+  // After a case is submitted, skip ahead to the next one still to be done
+  const advanceAfterSubmit = () => {
+    if (autoAdvance) goToCase(caseNavigation.nextIncompleteId)
+  }
 
-  // Fetch doctor name on component mount
+  // Alt+Left / Alt+Right move between cases, unless the user is typing
   useEffect(() => {
-    const fetchDoctorName = async () => {
-      try {
-        const urlParams = new URLSearchParams(window.location.search)
-        const doctorId = urlParams.get('doctorId')
-        
-        if (doctorId) {
-          const doctorDetails = await getUserDetails(doctorId)
-          setDoctorName(doctorDetails.name || 'Unknown Doctor')
-        }
-      } catch (error) {
-        console.error('Error fetching doctor name:', error)
-        setDoctorName('Unknown Doctor')
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (!e.altKey || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return
       }
+      const caseId = e.key === 'ArrowLeft'
+        ? caseNavigation.previousId
+        : e.key === 'ArrowRight' ? caseNavigation.nextId : null
+      if (!caseId) return
+
+      e.preventDefault()
+      navigate(casePath(caseId))
     }
-    
-    fetchDoctorName()
-  }, [])
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [caseNavigation.previousId, caseNavigation.nextId, navigate])
 
   // Ensure records are loaded before trying to access them
   if (!records || records.length === 0) {
     console.log("No records available");
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-medical-darkest-gray text-foreground">
-        <p>Loading records...</p>
+        <p>{t('index.loadingRecords')}</p>
       </div>
     );
   }
@@ -135,7 +160,27 @@ const Index = (props: Props) => {
   const activeRecord = records[currentImageIndex]
   console.log("Active record:", activeRecord ? activeRecord.id : "none");
   
-  const modelReports = activeRecord ? shuffle([...activeRecord.modelOutputs]) : []
+  const modelSlots = activeRecord
+    ? blindSlots(activeRecord.modelOutputs, activeRecord.id, evaluatorId, storedSlots)
+    : {}
+  const modelReports = activeRecord ? sortBySlot(activeRecord.modelOutputs, modelSlots) : []
+  const modelLabel = (responseId: string) => t('index.modelLabel', { number: modelSlots[responseId] })
+  // Per-language metrics get a column for each language in the case
+  const scoringMetrics = activeRecord ? expandLanguageMetrics(metrics, recordLanguages(activeRecord)) : metrics
+  // Responses missing from a stored ranking (or all of them, before the first
+  // change) follow in blinded order
+  const blindedIds = modelReports.map(report => report.responseId)
+  const ranking = [
+    ...casePreference.ranking.filter(id => blindedIds.includes(id)),
+    ...blindedIds.filter(id => !casePreference.ranking.includes(id))
+  ]
+  const comparisons = casePreference.comparisons.filter(comparison =>
+    blindedIds.includes(comparison.leftResponseId) && blindedIds.includes(comparison.rightResponseId)
+  )
+  const pairCount = (blindedIds.length * (blindedIds.length - 1)) / 2
+  const canSubmitPreference = comparativeMode === 'ranking'
+    ? blindedIds.length > 1 && casePreference.rankingConfirmed
+    : pairCount > 0 && comparisons.length === pairCount
   console.log("Model reports:", modelReports.length);
   
   console.log("Current metrics state:", metrics);
@@ -154,7 +199,7 @@ const Index = (props: Props) => {
 
   // Initialize evaluations when metrics are loaded for the current record
   useEffect(() => {
-    if (!activeRecord?.id || !activeRecord.modelOutputs || !metrics.length || metrics[0].id === '0') {
+    if (!activeRecord?.id || !activeRecord.modelOutputs || !metrics.length) {
       return;
     }
 
@@ -164,25 +209,58 @@ const Index = (props: Props) => {
       try {
         setIsSubmitting(true);
         
-        // Fetch existing evaluations
-        const existingEvaluations = await getExistingEvaluations(activeRecord.id);
+        // Fetch existing evaluations, plus anything scored locally that the
+        // server may not have yet (unsent updates, then the last local draft)
+        const [caseEvaluations, assignments, pendingUpdates, draft] = await Promise.all([
+          fetchCaseEvaluations(activeRecord.id),
+          fetchCaseAssignments(),
+          evaluatorId ? getPendingUpdates(evaluatorId, activeRecord.id) : [],
+          evaluatorId ? loadDraft(evaluatorId, activeRecord.id) : null
+        ]);
+        // The case's evaluations include every evaluator's rows; only this
+        // evaluator's scores, feedback and blinded slots are theirs to restore
+        const assignmentId = assignments.find(
+          assignment => assignment.case === activeRecord.id && assignment.evaluator === evaluatorId
+        )?.id;
+        const existingEvaluations = caseEvaluations.filter(
+          evaluation => assignmentId !== undefined && evaluation.case_assignment === assignmentId
+        );
         console.log("Fetched existing evaluations:", existingEvaluations);
+        setStoredSlots(Object.fromEntries(
+          existingEvaluations
+            .filter(evaluation => typeof evaluation.slot === 'number')
+            .map(evaluation => [evaluation.model_response, evaluation.slot])
+        ));
         
+        const feedback = getResponseFeedback(existingEvaluations);
+        const caseMetrics = expandLanguageMetrics(metrics, recordLanguages(activeRecord));
+
         // Map the evaluations to the correct format
-        const defaultScores = Array.from({ length: 3 }, (_, index) => {
-          const output = activeRecord.modelOutputs[index];
+        const defaultScores = activeRecord.modelOutputs.map(output => {
           // Find existing evaluations for this model output
-          const modelEvaluations = output ? existingEvaluations.filter(
+          const modelEvaluations = existingEvaluations.filter(
             evaluation => evaluation.model_response === output.responseId
-          ) : [];
+          );
+          
+          const draftModel = draft?.find(model => model.responseId === output.responseId);
+          const savedFeedback = feedback.find(item => item.responseId === output.responseId);
+          const languages = reportLanguages(output);
           
           return {
-            responseId: output?.responseId || `model-${index + 1}`,
-            metrics: metrics.map(metric => {
+            responseId: output.responseId,
+            comment: savedFeedback?.comment || draftModel?.comment || '',
+            errorTags: savedFeedback?.errorTags || draftModel?.errorTags || [],
+            metrics: caseMetrics.filter(metric => metricAppliesTo(metric.id, languages)).map(metric => {
+              const pending = pendingUpdates.find(
+                update => update.responseId === output.responseId && update.metricId === metric.id
+              );
+              const draftValue = draftModel
+                ?.metrics.find(draftMetric => draftMetric.id === metric.id)?.value ?? null;
               // Find existing evaluation for this metric
-              const existingValue = modelEvaluations.find(
-                evaluation => evaluation.metric === metric.id
+              const serverValue = modelEvaluations.find(
+                evaluation => variantMetricId(evaluation.metric, evaluation.language) === metric.id
               )?.score || null;
+              const existingValue = pending ? pending.score || null : serverValue ?? draftValue;
               
               return {
                 id: metric.id,
@@ -200,8 +278,8 @@ const Index = (props: Props) => {
       } catch (error) {
         console.error("Error initializing evaluation data:", error);
         toast({
-          title: "Error",
-          description: "Failed to initialize evaluation data. Please refresh the page.",
+          title: t('common.error'),
+          description: `${t('index.initError')} ${t(errorMessageKey(error))}`,
           variant: "destructive",
         });
       } finally {
@@ -210,17 +288,13 @@ const Index = (props: Props) => {
     };
 
     initializeEvaluations();
-  }, [metrics, activeRecord?.id, activeRecord?.modelOutputs, initId, toast]);
+  }, [metrics, activeRecord, evaluatorId, initId, toast, t]);
 
   const handleSubmit = async () => {
     if (!activeRecord?.id) return;
     
     setIsSubmitting(true);
     try {
-      // Get evaluatorId from URL params
-      const urlParams = new URLSearchParams(window.location.search);
-      const evaluatorId = urlParams.get('doctorId');
-
       if (!evaluatorId) {
         throw new Error('No evaluator ID found');
       }
@@ -232,42 +306,90 @@ const Index = (props: Props) => {
         throw new Error('No evaluations found for submission');
       }
 
-      // Submit each evaluation individually
-      const submissionPromises = currentEvaluations.flatMap(evaluation => 
+      // Demo scores are against demo metrics; keep them on this device only
+      if (DEMO_MODE) {
+        toast({
+          title: t('index.demoModeTitle'),
+          description: t('index.demoSubmitted'),
+        });
+        advanceAfterSubmit();
+        return;
+      }
+
+      const updates = currentEvaluations.flatMap(evaluation =>
         evaluation.metrics
           .filter(metric => metric.value !== null && metric.value > 0)
-          .map(metric => updateSingleEvaluation({
+          .map(metric => ({
             caseId: activeRecord.id,
             responseId: evaluation.responseId,
             metricId: metric.id,
             evaluatorId,
-            score: metric.value as number
+            score: metric.value as number,
+            slot: modelSlots[evaluation.responseId]
           }))
       );
 
-      const results = await Promise.all(submissionPromises);
-      
-      // Check the last result for the final status
-      const lastResult = results[results.length - 1];
-      
-      if (lastResult.status === 'completed') {
+      if (updates.length === 0) {
         toast({
-          title: "Success",
-          description: "All evaluations submitted successfully",
+          title: t('index.nothingScoredTitle'),
+          description: t('index.nothingScored'),
+        });
+        return;
+      }
+
+      // Scores go through the outbox, so they are kept and retried if the
+      // connection drops; comments and error tags don't affect the case status
+      const { result, pending, failed } = await queueScoreUpdates(updates);
+
+      // Feedback that can't be sent stays in the local draft and goes out
+      // again with the next submit, so it doesn't fail the submit
+      const feedbackResults = await Promise.allSettled(currentEvaluations
+        .filter(evaluation => evaluation.comment || evaluation.errorTags?.length)
+        .map(evaluation => updateResponseFeedback({
+          caseId: activeRecord.id,
+          responseId: evaluation.responseId,
+          evaluatorId,
+          comment: evaluation.comment || '',
+          errorTags: evaluation.errorTags || []
+        }))
+      );
+      const feedbackNote = feedbackResults.some(item => item.status === 'rejected')
+        ? ` ${t('index.feedbackNotSent')}`
+        : '';
+
+      if (failed > 0) {
+        toast({
+          title: t('index.submitRejectedTitle'),
+          description: t('index.submitRejected', { count: failed }) + feedbackNote,
+          variant: "destructive",
+        });
+      } else if (pending > 0) {
+        toast({
+          title: t('index.submitQueuedTitle'),
+          description: t('index.submitQueued') + feedbackNote,
+        });
+      } else if (result?.status === 'completed') {
+        toast({
+          title: t('common.success'),
+          description: t('index.submitSuccess') + feedbackNote,
         });
         setDoneForId(activeRecord.id, true);
+        advanceAfterSubmit();
       } else {
         toast({
-          title: "Partial Success",
-          description: `${lastResult.progress.completed} of ${lastResult.progress.total} evaluations completed`,
+          title: t('index.partialSuccess'),
+          description: t('index.partialProgress', {
+            completed: result?.progress?.completed ?? 0,
+            total: result?.progress?.total ?? 0
+          }) + feedbackNote,
           variant: "default",
         });
       }
     } catch (error) {
       console.error("Error submitting evaluations:", error);
       toast({
-        title: "Error",
-        description: "Failed to submit evaluations. Please try again.",
+        title: t('common.error'),
+        description: `${t('index.submitError')} ${t(errorMessageKey(error))}`,
         variant: "destructive",
       });
     } finally {
@@ -275,15 +397,44 @@ const Index = (props: Props) => {
     }
   };
 
-  const handleBackClick = () => {
-    const urlParams = new URLSearchParams(window.location.search)
-    const doctorId = urlParams.get('doctorId')
-    if (doctorId) {
-      navigate(`/doctor/${doctorId}`)
-    } else {
-      // Fallback to home if no doctorId
-      navigate('/')
+  const handleSubmitPreference = async () => {
+    if (!activeRecord?.id || !comparativeMode) return;
+
+    setIsSubmitting(true);
+    try {
+      if (!evaluatorId) {
+        throw new Error('No evaluator ID found');
+      }
+
+      await submitPreference({
+        caseId: activeRecord.id,
+        evaluatorId,
+        mode: comparativeMode,
+        ranking: comparativeMode === 'ranking' ? ranking : [],
+        comparisons: comparativeMode === 'pairwise' ? comparisons : [],
+        slots: modelSlots
+      });
+      invalidatePreferences();
+
+      toast({
+        title: t('common.success'),
+        description: comparativeMode === 'ranking' ? t('index.rankingSubmitted') : t('index.comparisonsSubmitted'),
+      });
+      advanceAfterSubmit();
+    } catch (error) {
+      console.error("Error submitting preference:", error);
+      toast({
+        title: t('common.error'),
+        description: `${t('index.preferenceError')} ${t(errorMessageKey(error))}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
     }
+  };
+
+  const handleBackClick = () => {
+    navigate('/cases')
   }
 
   console.log({ activeRecord, modelReports, modelScores })
@@ -296,72 +447,175 @@ const Index = (props: Props) => {
             onClick={handleBackClick} 
             className="mr-4 hover:text-medical-blue transition-colors"
           >
-            ← Back to Cases
+            ← {t('index.backToCases')}
           </button>
           <h1 className="text-xl font-bold text-medical-blue flex items-center">
             <Settings className="mr-2" size={20} />
-            X-Ray AI Insights Hub
+            {t('common.appName')}
           </h1>
         </div>
-        <div className="flex items-center">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => goToCase(caseNavigation.previousId)}
+            disabled={!caseNavigation.previousId}
+            className="p-1.5 rounded-md nav-button disabled:opacity-40"
+            aria-label={t('index.previousCase')}
+            title={t('index.previousCaseShortcut')}
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <span className="text-sm text-medical-gray min-w-[6rem] text-center">
+            {caseNavigation.position !== null
+              ? t('index.casePosition', { position: caseNavigation.position, total: caseNavigation.total })
+              : activeRecord.image_id || ''}
+          </span>
+          <button
+            onClick={() => goToCase(caseNavigation.nextId)}
+            disabled={!caseNavigation.nextId}
+            className="p-1.5 rounded-md nav-button disabled:opacity-40"
+            aria-label={t('index.nextCase')}
+            title={t('index.nextCaseShortcut')}
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <div className="flex items-center space-x-6">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={evaluationMode}
+            onValueChange={(value) => value && setEvaluationMode(value as EvaluationMode)}
+            aria-label={t('index.evaluationMode')}
+          >
+            <ToggleGroupItem value="likert">{t('index.modes.likert')}</ToggleGroupItem>
+            <ToggleGroupItem value="ranking">{t('index.modes.ranking')}</ToggleGroupItem>
+            <ToggleGroupItem value="pairwise">{t('index.modes.pairwise')}</ToggleGroupItem>
+          </ToggleGroup>
+          <label className="flex items-center space-x-2 text-sm text-medical-gray">
+            <Switch checked={autoAdvance} onCheckedChange={setAutoAdvance} />
+            <span>{t('index.autoAdvance')}</span>
+          </label>
+          <LanguagePicker />
           <p className="text-sm text-medical-gray">
-            Doctor: {doctorName}
+            {t('index.doctor', { name: user?.name || t('index.unknownDoctor') })}
           </p>
         </div>
       </header>
 
       <div className="flex-1 flex flex-col p-4 space-y-4 overflow-auto">
+        {metricsUnavailable && (
+          <QueryError
+            message={metricsQuery.isError ? t('index.metricsUnavailable') : t('index.noMetrics')}
+            error={metricsQuery.error}
+            onRetry={() => metricsQuery.refetch()}
+          />
+        )}
+        {DEMO_MODE && (
+          <Alert>
+            <FlaskConical className="h-4 w-4" />
+            <AlertTitle>{t('index.demoModeTitle')}</AlertTitle>
+            <AlertDescription>{t('index.demoMode')}</AlertDescription>
+          </Alert>
+        )}
         <div className="flex gap-4 h-[calc(60vh-2rem)]">
           <div className="w-2/5">
             <ImageViewer
-              currentImage={activeRecord.imageUrl}
-              currentIndex={0}
-              totalImages={1}
-              onChangeImage={() => {}}
+              caseId={activeRecord.id || ''}
+              images={activeRecord.images}
+              currentIndex={Math.min(studyImageIndex, activeRecord.images.length - 1)}
+              onChangeImage={setStudyImageIndex}
+              evaluatorId={evaluatorId}
+              annotationTargets={{
+                responses: modelReports.map(report => ({
+                  id: report.responseId,
+                  label: modelLabel(report.responseId)
+                })),
+                metrics
+              }}
+              overlays={modelReports
+                .map((report) => ({
+                  responseId: report.responseId,
+                  label: modelLabel(report.responseId),
+                  overlay: report.overlay
+                }))
+                .filter((item) => item.overlay)}
+              hoveredResponseId={hoveredResponseId}
             />
           </div>
 
-          <div className="w-3/5 grid grid-cols-2 grid-rows-2 gap-4">
-            <ReportPanel 
-              isGroundTruth
-              report={activeRecord.groundTruth}
-            />
-            {modelReports.map((report, index) => (
-              <ReportPanel
-                key={index}
-                report={report}
-                title={`MODEL ${index + 1}`}
-              />
-            ))}
-          </div>
+          <ReportGrid
+            className="w-3/5"
+            caseId={activeRecord.id || ''}
+            evaluatorId={evaluatorId}
+            errorTags={errorTags}
+            focusedSection={focusedSection}
+            groundTruth={activeRecord.groundTruth}
+            reports={modelReports}
+            slots={modelSlots}
+            onHoverChange={setHoveredResponseId}
+          />
         </div>
 
         <div className="flex-1 min-h-[calc(40vh-6rem)] flex flex-col">
           <div className="flex-1 overflow-y-auto">
-            <EvaluationMetrics
-              activeRecordId={activeRecord.id || ''}
-              metrics={metrics}
-              isSubmitting={isSubmitting}
-              modelResponses={Array.from({ length: 3 }, (_, index) => {
-                const report = modelReports[index];
-                return {
-                  id: report?.responseId || `model-${index + 1}`,
-                  model_name: `Model ${index + 1}`,
-                  response: report || { responseId: `model-${index + 1}`, response: '' }
-                };
-              })}
-            />
+            {comparativeMode ? (
+              <PreferenceInput
+                mode={comparativeMode}
+                responses={modelReports.map(report => ({
+                  id: report.responseId,
+                  label: modelLabel(report.responseId)
+                }))}
+                ranking={ranking}
+                comparisons={comparisons}
+                onRankingChange={casePreference.setRanking}
+                rankingConfirmed={casePreference.rankingConfirmed}
+                onRankingConfirm={casePreference.confirmRanking}
+                onComparisonsChange={casePreference.setComparisons}
+                onHoverChange={setHoveredResponseId}
+                disabled={isSubmitting}
+              />
+            ) : metricsUnavailable ? (
+              <p className="p-8 text-center text-medical-gray">{t('index.scoringDisabled')}</p>
+            ) : (
+              <EvaluationMetrics
+                activeRecordId={activeRecord.id || ''}
+                metrics={scoringMetrics}
+                isSubmitting={isSubmitting}
+                onSubmit={() => {
+                  if (!isSubmitting && metrics.length) handleSubmit()
+                }}
+                errorTags={errorTags}
+                onSectionFocus={setFocusedSection}
+                modelResponses={modelReports.map(report => ({
+                  id: report.responseId,
+                  model_name: modelLabel(report.responseId),
+                  slot: modelSlots[report.responseId],
+                  languages: reportLanguages(report),
+                  response: report
+                }))}
+              />
+            )}
           </div>
           
           <div className="mt-4 flex justify-center">
-            <Button 
-              onClick={handleSubmit} 
-              disabled={isSubmitting || metrics[0].id === '0' || !activeRecord?.id}
-              className="bg-medical-blue hover:bg-medical-blue/90"
-            >
-              {isSubmitting ? "Submitting..." : 
-               metrics[0].id === '0' ? "Loading Metrics..." : "Submit"}
-            </Button>
+            {comparativeMode ? (
+              <Button
+                onClick={handleSubmitPreference}
+                disabled={isSubmitting || !canSubmitPreference || !activeRecord?.id}
+                className="bg-medical-blue hover:bg-medical-blue/90"
+              >
+                {isSubmitting ? t('index.submitting') : t('index.submit')}
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleSubmit} 
+                disabled={isSubmitting || !metrics.length || !activeRecord?.id}
+                className="bg-medical-blue hover:bg-medical-blue/90"
+              >
+                {isSubmitting ? t('index.submitting') : 
+                 metricsQuery.isPending ? t('index.loadingMetrics') : t('index.submit')}
+              </Button>
+            )}
           </div>
         </div>
       </div>
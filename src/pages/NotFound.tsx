@@ -3,9 +3,11 @@ import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { AlertCircle } from "lucide-react";
+import useTranslation from "@/hooks/use-translation";
 
 const NotFound = () => {
   const location = useLocation();
+  const { t } = useTranslation();
 
   useEffect(() => {
     console.error(
@@ -22,10 +24,10 @@ const NotFound = () => {
         </div>
         <h1 className="text-4xl font-bold mb-4 text-medical-blue">404</h1>
         <p className="text-xl text-gray-300 mb-6">
-          This page could not be found
+          {t("notFound.message")}
         </p>
         <Button className="bg-medical-blue hover:bg-medical-dark-blue" asChild>
-          <a href="/">Return to Dashboard</a>
+          <a href="/">{t("notFound.home")}</a>
         </Button>
       </div>
     </div>
@@ -1,82 +1,99 @@
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Navigate, useLocation, useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
-import { isSupervisor } from '@/services'
+import { homePath } from '@/lib/auth'
+import { ApiError } from '@/services/errors'
+import useAuth from '@/hooks/use-auth'
+import useTranslation from '@/hooks/use-translation'
+import { LanguagePicker } from '@/components/LanguagePicker'
 
 function RadId() {
-  const [userId, setUserId] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const navigate = useNavigate()
+  const location = useLocation()
+  const { user, sessionExpired, signIn } = useAuth()
+  const { t } = useTranslation()
 
-  async function handleSubmit(e) {
+  // Page RequireAuth sent the user here from
+  const from = (location.state as { from?: string } | null)?.from
+
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
-    if (!userId.trim()) return
-    
+    if (!username.trim() || !password) return
+
     setIsSubmitting(true)
     setError('')
-    
+
     try {
-      // Check if the user is a supervisor
-      const userIsSupervisor = await isSupervisor(userId)
-      
-      if (userIsSupervisor) {
-        // Navigate to supervisor dashboard
-        console.log('Navigating to supervisor dashboard:', userId)
-        navigate(`/supervisor/dashboard/${userId}`)
-      } else {
-        // Navigate to doctor cases
-        console.log('Navigating to doctor cases:', userId)
-        navigate(`/doctor/${userId}`)
-      }
+      const signedIn = await signIn(username.trim(), password)
+      navigate(from || homePath(signedIn), { replace: true })
     } catch (err) {
-      console.error('Error checking user role:', err)
-      setError('Could not verify user ID. Please check the ID and try again.')
+      console.error('Error signing in:', err)
+      const rejected = err instanceof ApiError && (err.kind === 'validation' || err.status === 401)
+      setError(rejected ? t('radId.invalidCredentials') : t('radId.loginError'))
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  if (user) {
+    return <Navigate to={from || homePath(user)} replace />
+  }
+
   return (
     <div className="flex items-center justify-center h-full">
       <Card className="w-96">
         <CardHeader>
-          <CardTitle className="text-center">X-Ray AI Insights Hub</CardTitle>
-          <CardDescription className="text-center">Enter your ID to access the system</CardDescription>
+          <LanguagePicker className="self-end" />
+          <CardTitle className="text-center">{t('common.appName')}</CardTitle>
+          <CardDescription className="text-center">{t('radId.subtitle')}</CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
+            {(error || sessionExpired) && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
+                <AlertDescription>{error || t('radId.sessionExpired')}</AlertDescription>
               </Alert>
             )}
-            
+
             <div className="space-y-2">
-              <label className="text-sm font-medium">Enter Your ID</label>
+              <label htmlFor="username" className="text-sm font-medium">{t('radId.usernameLabel')}</label>
               <Input
+                id="username"
                 type="text"
-                placeholder="Enter your ID"
-                value={userId}
-                onChange={(e) => setUserId(e.target.value)}
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="password" className="text-sm font-medium">{t('radId.passwordLabel')}</label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground">
-                For testing, use: d7a13dc2-e96d-4e03-b400-9dc8537247ca (doctor) or 09624215-09ba-4a56-ad5e-251c74d0a74c (supervisor)
-              </p>
             </div>
 
-            <Button 
+            <Button
               type="submit"
-              disabled={!userId.trim() || isSubmitting}
+              disabled={!username.trim() || !password || isSubmitting}
               className="w-full"
             >
-              {isSubmitting ? 'Checking...' : 'Login'}
+              {isSubmitting ? t('radId.checking') : t('radId.login')}
             </Button>
           </form>
         </CardContent>
@@ -1,5 +1,4 @@
-import { useState, useEffect } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
+import { useState } from 'react'
 import { 
   Card, 
   CardContent, 
@@ -28,23 +27,33 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion"
-import { 
-  getAllEvaluators, 
-  getAllEvaluations, 
-  getAllCases, 
-  getMetrics,
-  getEvaluatorCases
-} from '@/services'
+import {
+  useEvaluators,
+  useEvaluations,
+  useCases,
+  useCasesById,
+  useCaseResponses,
+  useCaseAssignments,
+  useModels,
+  useMetrics,
+  useEvaluatorCases,
+  useAnnotations,
+  useErrorTags,
+  useReportSpans,
+  usePreferences
+} from '@/services/queries'
+import { Case } from '@/services/schemas'
+import { bradleyTerryLeaderboard, preferenceOutcomes } from '@/lib/leaderboard'
+import { languageInfo } from '@/lib/languages'
+import { errorTagLabel } from '@/lib/i18n'
+import { Annotation, ReportSpan } from '@/types'
 import { Loader2 } from 'lucide-react'
+import useTranslation from '@/hooks/use-translation'
+import { LanguagePicker } from '@/components/LanguagePicker'
+import { SignOutButton } from '@/components/SignOutButton'
+import { QueryError } from '@/components/QueryState'
 
 // Type definitions for better type safety
-interface Evaluator {
-  id: string;
-  name: string;
-  email: string;
-  role: string;
-}
-
 interface Evaluation {
   id: string;
   case_id: string;
@@ -53,177 +62,136 @@ interface Evaluation {
   model_name: string;
   metric_id: string;
   score: number;
+  // Blinded position the model was shown in, null for scores saved before slots were recorded
+  slot: number | null;
+  comment: string;
+  error_tags: string[];
+  // Language variant the score is for, null for metrics scored once per response
+  language: string | null;
   created_at: string;
 }
 
-interface Case {
-  id: string;
-  image_id: string;
-}
-
-interface Metric {
-  id: string;
-  name: string;
-  description?: string;
-}
+type EvaluatorAnnotation = Annotation & { caseId: string; evaluatorId: string }
+type EvaluatorReportSpan = ReportSpan & { caseId: string; evaluatorId: string }
 
 function SupervisorDashboard() {
-  const { supervisorId } = useParams()
-  const navigate = useNavigate()
+  const { t, formatDate, formatNumber } = useTranslation()
   
   const [activeTab, setActiveTab] = useState('evaluators')
-  const [evaluators, setEvaluators] = useState<Evaluator[]>([])
-  const [evaluations, setEvaluations] = useState<Evaluation[]>([])
-  const [cases, setCases] = useState<Case[]>([])
-  const [evaluatorCases, setEvaluatorCases] = useState<any[]>([])
-  const [metrics, setMetrics] = useState<Metric[]>([])
   const [selectedEvaluator, setSelectedEvaluator] = useState<string | null>(null)
-  const [loading, setLoading] = useState({
-    evaluators: true,
-    evaluations: true,
-    cases: true,
-    metrics: true,
-    evaluatorCases: false
+
+  const evaluatorsQuery = useEvaluators()
+  const evaluationsQuery = useEvaluations()
+  const casesQuery = useCases()
+  const assignmentsQuery = useCaseAssignments()
+  const modelsQuery = useModels()
+  const metricsQuery = useMetrics()
+  const errorTagsQuery = useErrorTags()
+  // Ranking and pairwise judgements, for the leaderboard
+  const preferencesQuery = usePreferences()
+  const evaluatorCasesQuery = useEvaluatorCases(selectedEvaluator)
+  // Annotations and highlighted spans are only shown per evaluator, so load
+  // them alongside the evaluator's cases
+  const annotationsQuery = useAnnotations(selectedEvaluator)
+  const reportSpansQuery = useReportSpans(selectedEvaluator)
+
+  const evaluators = evaluatorsQuery.data ?? []
+  const metrics = metricsQuery.data ?? []
+  const errorTags = errorTagsQuery.data ?? []
+  const preferences = preferencesQuery.data ?? []
+  const annotations: EvaluatorAnnotation[] = annotationsQuery.data ?? []
+  const reportSpans: EvaluatorReportSpan[] = reportSpansQuery.data ?? []
+  const caseAssignments = assignmentsQuery.data ?? []
+
+  // Get model responses data to link model_response IDs to model IDs
+  // Since there's no direct API, we'll try to get this from case details
+  const responseQueries = useCaseResponses((casesQuery.data ?? []).map(caseItem => caseItem.id))
+
+  // Create a map of model IDs to model names for quick lookup
+  const modelMap: Record<string, string> = {}
+  ;(modelsQuery.data ?? []).forEach(model => {
+    modelMap[model.id] = model.name
   })
-  const [error, setError] = useState('')
-
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        // Fetch cases first to have case data available
-        setLoading(prev => ({ ...prev, cases: true }))
-        const casesData = await getAllCases()
-        console.log("Fetched cases:", casesData)
-        setCases(casesData)
-        setLoading(prev => ({ ...prev, cases: false }))
-        
-        // Fetch case assignments to get the relationship between cases and evaluators
-        const caseAssignmentsResponse = await fetch('/api/case-assignments/');
-        const caseAssignments = await caseAssignmentsResponse.json();
-        console.log("Fetched case assignments:", caseAssignments);
-        
-        // Create a map of assignment IDs to case IDs for quick lookup
-        const assignmentToCaseMap = {};
-        caseAssignments.forEach(assignment => {
-          assignmentToCaseMap[assignment.id] = assignment.case;
-        });
-        console.log("Assignment to case map:", assignmentToCaseMap);
-        
-        // Fetch evaluators
-        setLoading(prev => ({ ...prev, evaluators: true }))
-        const evaluatorsData = await getAllEvaluators()
-        console.log("Fetched evaluators:", evaluatorsData)
-        setEvaluators(evaluatorsData)
-        setLoading(prev => ({ ...prev, evaluators: false }))
-        
-        // Fetch all evaluations
-        setLoading(prev => ({ ...prev, evaluations: true }))
-        const evaluationsData = await getAllEvaluations()
-        console.log("Fetched evaluations:", evaluationsData)
-        
-        // Get model data for populating model names
-        const modelsResponse = await fetch('/api/models/');
-        const models = await modelsResponse.json();
-        console.log("Fetched models:", models);
-        
-        // Create a map of model IDs to model names for quick lookup
-        const modelMap = {};
-        models.forEach(model => {
-          modelMap[model.id] = model.name;
-        });
-        
-        // Get model responses data to link model_response IDs to model IDs
-        // Since there's no direct API, we'll try to get this from case details
-        const modelResponseMap = {};
-        for (const caseItem of casesData) {
-          try {
-            const caseDetailsResponse = await fetch(`/api/cases/${caseItem.id}/details/`);
-            const caseDetails = await caseDetailsResponse.json();
-            
-            if (caseDetails && caseDetails.model_responses) {
-              caseDetails.model_responses.forEach(response => {
-                modelResponseMap[response.id] = {
-                  model: response.model,
-                  modelName: modelMap[response.model] || 'Unknown Model'
-                };
-              });
-            }
-          } catch (err) {
-            console.error(`Error fetching details for case ${caseItem.id}:`, err);
-          }
-        }
-        
-        console.log("Model response map:", modelResponseMap);
-        
-        // Fetch metrics
-        setLoading(prev => ({ ...prev, metrics: true }))
-        const metricsData = await getMetrics()
-        console.log("Fetched metrics:", metricsData)
-        setMetrics(metricsData)
-        setLoading(prev => ({ ...prev, metrics: false }))
-        
-        // Map evaluation fields correctly based on actual backend structure
-        const mappedEvaluations = evaluationsData.map(evaluation => {
-          // Get the case ID from the case assignment
-          const caseId = assignmentToCaseMap[evaluation.case_assignment] || "unknown-case";
-          
-          // Get evaluator ID from case assignment
-          const evaluatorId = caseAssignments.find(ca => ca.id === evaluation.case_assignment)?.evaluator || "unknown-evaluator";
-          
-          // Get model data from model response
-          const modelInfo = modelResponseMap[evaluation.model_response] || { model: "unknown-model", modelName: "Unknown Model" };
-          
-          return {
-            id: evaluation.id || `temp-${Math.random()}`,
-            case_id: caseId,
-            evaluator_id: evaluatorId,
-            model_id: modelInfo.model,
-            model_name: modelInfo.modelName,
-            metric_id: evaluation.metric || "unknown-metric",
-            score: evaluation.score || 0,
-            created_at: evaluation.created_at || new Date().toISOString()
-          };
-        });
-        
-        console.log("Mapped evaluations:", mappedEvaluations)
-        setEvaluations(mappedEvaluations)
-        setLoading(prev => ({ ...prev, evaluations: false }))
-      } catch (err) {
-        console.error('Error fetching supervisor data:', err)
-        setError('Failed to load data. Please check your connection and try again.')
-        setLoading({
-          evaluators: false,
-          evaluations: false,
-          cases: false,
-          metrics: false,
-          evaluatorCases: false
-        })
-      }
-    }
-    
-    fetchData()
-  }, [])
-  
-  // Fetch evaluator-specific cases when an evaluator is selected
-  useEffect(() => {
-    if (selectedEvaluator) {
-      async function fetchEvaluatorCases() {
-        try {
-          setLoading(prev => ({ ...prev, evaluatorCases: true }))
-          const casesData = await getEvaluatorCases(selectedEvaluator)
-          setEvaluatorCases(casesData)
-          setLoading(prev => ({ ...prev, evaluatorCases: false }))
-        } catch (err) {
-          console.error('Error fetching evaluator cases:', err)
-          setLoading(prev => ({ ...prev, evaluatorCases: false }))
-          setError('Failed to load evaluator cases.')
-        }
+
+  const modelResponseMap: Record<string, { model: string; modelName: string }> = {}
+  responseQueries.forEach(query => {
+    query.data?.model_responses.forEach(response => {
+      modelResponseMap[response.id] = {
+        model: response.model,
+        modelName: modelMap[response.model] || t('supervisor.unknownModel')
       }
-      
-      fetchEvaluatorCases()
+    })
+  })
+  const responseModelNames: Record<string, string> = Object.fromEntries(
+    Object.entries(modelResponseMap).map(([responseId, info]) => [responseId, info.modelName])
+  )
+
+  // Create a map of assignment IDs to case IDs for quick lookup
+  const assignmentToCaseMap: Record<string, string> = {}
+  caseAssignments.forEach(assignment => {
+    assignmentToCaseMap[assignment.id] = assignment.case
+  })
+
+  // Map evaluation fields correctly based on actual backend structure
+  const evaluations: Evaluation[] = (evaluationsQuery.data ?? []).map(evaluation => {
+    // Get the case ID from the case assignment
+    const caseId = assignmentToCaseMap[evaluation.case_assignment] || "unknown-case"
+
+    // Get evaluator ID from case assignment
+    const evaluatorId = caseAssignments.find(ca => ca.id === evaluation.case_assignment)?.evaluator || "unknown-evaluator"
+
+    // Get model data from model response
+    const modelInfo = modelResponseMap[evaluation.model_response] || { model: "unknown-model", modelName: t('supervisor.unknownModel') }
+
+    return {
+      id: evaluation.id,
+      case_id: caseId,
+      evaluator_id: evaluatorId,
+      model_id: modelInfo.model,
+      model_name: modelInfo.modelName,
+      metric_id: evaluation.metric,
+      score: evaluation.score || 0,
+      slot: typeof evaluation.slot === 'number' ? evaluation.slot : null,
+      comment: evaluation.comment || '',
+      error_tags: evaluation.error_tags || [],
+      language: evaluation.language || null,
+      created_at: evaluation.created_at
     }
-  }, [selectedEvaluator])
-  
+  })
+
+  // Cases evaluated but missing from the case list are looked up one by one
+  const listedCaseIds = new Set((casesQuery.data ?? []).map(caseItem => caseItem.id))
+  const missingCaseIds = casesQuery.data
+    ? [...new Set(evaluations.map(evaluation => evaluation.case_id))]
+      .filter(caseId => caseId !== 'unknown-case' && !listedCaseIds.has(caseId))
+    : []
+  const missingCaseQueries = useCasesById(missingCaseIds)
+  const cases: Case[] = [
+    ...(casesQuery.data ?? []),
+    ...missingCaseQueries.flatMap(query => (query.data ? [query.data] : []))
+  ]
+
+  const loading = {
+    evaluators: evaluatorsQuery.isPending,
+    evaluations: [evaluationsQuery, casesQuery, assignmentsQuery, modelsQuery, ...responseQueries]
+      .some(query => query.isPending),
+    metrics: metricsQuery.isPending || errorTagsQuery.isPending,
+    // Only pending while fetching, as it waits for an evaluator to be selected
+    evaluatorCases: evaluatorCasesQuery.isLoading,
+    preferences: preferencesQuery.isPending
+  }
+
+  const coreQueries = [evaluatorsQuery, evaluationsQuery, casesQuery, assignmentsQuery, modelsQuery, metricsQuery]
+  // Message key, translated when rendered
+  const error = coreQueries.some(query => query.isError)
+    ? 'supervisor.fetchError'
+    : evaluatorCasesQuery.isError ? 'supervisor.evaluatorCasesError' : ''
+  const retryFailedQueries = () => {
+    [...coreQueries, evaluatorCasesQuery]
+      .filter(query => query.isError)
+      .forEach(query => query.refetch())
+  }
+
   // Filter evaluations by selected evaluator
   const filteredEvaluations = selectedEvaluator
     ? evaluations.filter(evaluation => evaluation.evaluator_id === selectedEvaluator)
@@ -239,31 +207,40 @@ function SupervisorDashboard() {
     return acc
   }, {} as Record<string, Evaluation[]>)
   
-  // Add a utility method to load case details if needed
-  const fetchCaseDetailIfNeeded = async (caseId: string) => {
-    // Only fetch if we need to (case not found in our list)
-    if (cases.find(c => c.id === caseId)) {
-      return;
-    }
-    
-    try {
-      console.log(`Fetching details for case ${caseId}`);
-      const caseResponse = await fetch(`/api/cases/${caseId}/`);
-      
-      if (!caseResponse.ok) {
-        console.warn(`Failed to fetch case ${caseId}: ${caseResponse.status}`);
-        return;
-      }
-      
-      const caseData = await caseResponse.json();
-      console.log(`Got case data:`, caseData);
-      
-      // Add this case to our list
-      setCases(prevCases => [...prevCases, caseData]);
-    } catch (error) {
-      console.error(`Error fetching case ${caseId}:`, error);
-    }
-  };
+  // Mean score per blinded slot, overall and per model, to check for position bias
+  const slottedEvaluations = filteredEvaluations.filter(evaluation => evaluation.slot !== null)
+  const slots = [...new Set(slottedEvaluations.map(evaluation => evaluation.slot))].sort((a, b) => a - b)
+  const slotModels = [...new Set(slottedEvaluations.map(evaluation => evaluation.model_name))].sort()
+  const summarizeScores = (items: Evaluation[]) => ({
+    count: items.length,
+    mean: items.length ? items.reduce((sum, item) => sum + item.score, 0) / items.length : null
+  })
+  
+  // Comments and error tags are repeated on every metric row of a response,
+  // so keep one entry per case / evaluator / model
+  const feedbackEntries = Object.values(
+    filteredEvaluations
+      .filter(evaluation => evaluation.comment || evaluation.error_tags.length > 0)
+      .reduce((acc, evaluation) => {
+        acc[`${evaluation.case_id}:${evaluation.evaluator_id}:${evaluation.model_id}`] = evaluation
+        return acc
+      }, {} as Record<string, Evaluation>)
+  )
+  const taggedModels = [...new Set(feedbackEntries.map(entry => entry.model_name))].sort()
+
+  // Bradley–Terry ratings from every ranking and pairwise choice, by model
+  const filteredPreferences = selectedEvaluator
+    ? preferences.filter(preference => preference.evaluatorId === selectedEvaluator)
+    : preferences
+  const leaderboard = bradleyTerryLeaderboard(
+    filteredPreferences.flatMap(preferenceOutcomes),
+    responseId => responseModelNames[responseId] || t('supervisor.unknownModel')
+  )
+
+  const getErrorTagLabel = (tagId: string): string => {
+    const tag = errorTags.find(candidate => candidate.id === tagId)
+    return tag ? errorTagLabel(tag, t) : tagId
+  }
 
   // Get case details by ID
   const getCaseDetails = (caseId: string): Case => {
@@ -274,10 +251,7 @@ function SupervisorDashboard() {
     
     console.warn(`Case not found for ID: ${caseId}`);
     
-    // Try to fetch the missing case data (won't update immediately but will be available for next render)
-    fetchCaseDetailIfNeeded(caseId);
-    
-    return { id: caseId, image_id: `Case ${caseId.slice(0, 8)}` };
+    return { id: caseId, image_id: t('supervisor.fallbackCase', { id: caseId.slice(0, 8) }) };
   }
   
   // Get evaluator name by ID
@@ -288,7 +262,7 @@ function SupervisorDashboard() {
     }
     
     console.warn(`Evaluator not found for ID: ${evaluatorId}`);
-    return `Evaluator ${evaluatorId.slice(0, 8)}`;
+    return t('supervisor.fallbackEvaluator', { id: evaluatorId.slice(0, 8) });
   }
 
   // Get metric name by ID
@@ -299,9 +273,15 @@ function SupervisorDashboard() {
     }
     
     console.warn(`Metric not found for ID: ${metricId}`);
-    return `Metric ${metricId.slice(0, 8)}`;
+    return t('supervisor.fallbackMetric', { id: metricId.slice(0, 8) });
   }
 
+  // Metric name, with the language for scores given per language variant
+  const getEvaluationMetricName = (evaluation: Evaluation): string =>
+    evaluation.language
+      ? `${getMetricName(evaluation.metric_id)} (${languageInfo(evaluation.language).name})`
+      : getMetricName(evaluation.metric_id)
+
   // Get color based on score value
   const getScoreColor = (score: number): string => {
     if (score >= 8) return "text-green-500 font-bold"
@@ -309,21 +289,9 @@ function SupervisorDashboard() {
     return "text-red-500 font-bold"
   }
 
-  // Format date string safely
-  const formatDate = (dateString: string): string => {
-    if (!dateString) return 'Invalid Date';
-    
-    try {
-      return new Date(dateString).toLocaleDateString();
-    } catch (error) {
-      console.warn(`Error formatting date: ${dateString}`, error);
-      return 'Invalid Date';
-    }
-  }
-
-  function goBack() {
-    navigate('/supervisor')
-  }
+  // Tab title, narrowed to the selected evaluator
+  const scopedTitle = (title: string): string =>
+    selectedEvaluator ? t('supervisor.forEvaluator', { title, name: getEvaluatorName(selectedEvaluator) }) : title
 
   const handleSelectEvaluator = (evaluatorId: string) => {
     setSelectedEvaluator(evaluatorId)
@@ -336,26 +304,32 @@ function SupervisorDashboard() {
         <CardHeader>
           <div className="flex justify-between items-center">
             <div>
-              <CardTitle>Supervisor Dashboard</CardTitle>
-              <CardDescription>Review evaluator performance and case evaluations</CardDescription>
+              <CardTitle>{t('supervisor.title')}</CardTitle>
+              <CardDescription>{t('supervisor.description')}</CardDescription>
+            </div>
+            <div className="flex items-center gap-3">
+              <LanguagePicker />
+              <SignOutButton />
             </div>
-            <Button variant="outline" onClick={goBack}>Back to Login</Button>
           </div>
         </CardHeader>
       </Card>
       
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3 mb-6">
-          <TabsTrigger value="evaluators">Evaluators</TabsTrigger>
-          <TabsTrigger value="evaluations">Evaluations</TabsTrigger>
-          <TabsTrigger value="metrics">Metrics</TabsTrigger>
+        <TabsList className="grid w-full grid-cols-6 mb-6">
+          <TabsTrigger value="evaluators">{t('supervisor.tabs.evaluators')}</TabsTrigger>
+          <TabsTrigger value="evaluations">{t('supervisor.tabs.evaluations')}</TabsTrigger>
+          <TabsTrigger value="metrics">{t('supervisor.tabs.metrics')}</TabsTrigger>
+          <TabsTrigger value="position-bias">{t('supervisor.tabs.positionBias')}</TabsTrigger>
+          <TabsTrigger value="failure-modes">{t('supervisor.tabs.failureModes')}</TabsTrigger>
+          <TabsTrigger value="leaderboard">{t('supervisor.tabs.leaderboard')}</TabsTrigger>
         </TabsList>
         
         <TabsContent value="evaluators">
           <Card>
             <CardHeader>
-              <CardTitle>Evaluators</CardTitle>
-              <CardDescription>All doctors who can evaluate cases</CardDescription>
+              <CardTitle>{t('supervisor.tabs.evaluators')}</CardTitle>
+              <CardDescription>{t('supervisor.evaluators.description')}</CardDescription>
             </CardHeader>
             <CardContent>
               {loading.evaluators ? (
@@ -366,16 +340,16 @@ function SupervisorDashboard() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Role</TableHead>
-                      <TableHead>Actions</TableHead>
+                      <TableHead>{t('supervisor.columns.name')}</TableHead>
+                      <TableHead>{t('supervisor.columns.email')}</TableHead>
+                      <TableHead>{t('supervisor.columns.role')}</TableHead>
+                      <TableHead>{t('supervisor.columns.actions')}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {evaluators.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="text-center">No evaluators found</TableCell>
+                        <TableCell colSpan={4} className="text-center">{t('supervisor.evaluators.empty')}</TableCell>
                       </TableRow>
                     ) : (
                       evaluators.map(evaluator => (
@@ -389,7 +363,7 @@ function SupervisorDashboard() {
                               size="sm"
                               onClick={() => handleSelectEvaluator(evaluator.id)}
                             >
-                              View Evaluations
+                              {t('supervisor.evaluators.viewEvaluations')}
                             </Button>
                           </TableCell>
                         </TableRow>
@@ -407,8 +381,8 @@ function SupervisorDashboard() {
             <CardHeader>
               <div className="flex justify-between items-center">
                 <div>
-                  <CardTitle>Evaluations {selectedEvaluator && `for ${getEvaluatorName(selectedEvaluator)}`}</CardTitle>
-                  <CardDescription>Review all evaluation metrics and scores</CardDescription>
+                  <CardTitle>{scopedTitle(t('supervisor.tabs.evaluations'))}</CardTitle>
+                  <CardDescription>{t('supervisor.evaluations.description')}</CardDescription>
                 </div>
                 {selectedEvaluator && (
                   <Button 
@@ -416,7 +390,7 @@ function SupervisorDashboard() {
                     size="sm"
                     onClick={() => setSelectedEvaluator(null)}
                   >
-                    Show All Evaluations
+                    {t('supervisor.evaluations.showAll')}
                   </Button>
                 )}
               </div>
@@ -431,7 +405,7 @@ function SupervisorDashboard() {
                 <div className="space-y-6">
                   {Object.keys(evaluationsByCase).length === 0 ? (
                     <div className="text-center py-6">
-                      No evaluations found for this evaluator
+                      {t('supervisor.evaluations.emptyForEvaluator')}
                     </div>
                   ) : (
                     <Accordion type="single" collapsible className="w-full">
@@ -446,39 +420,46 @@ function SupervisorDashboard() {
                           acc[modelId].push(evaluation);
                           return acc;
                         }, {} as Record<string, Evaluation[]>);
+                        const caseAnnotations = annotations.filter(annotation => annotation.caseId === caseId);
                         
                         return (
                           <AccordionItem key={caseId} value={caseId}>
                             <AccordionTrigger className="hover:bg-gray-50 px-4 rounded">
                               <div className="flex items-center justify-between w-full">
-                                <span>Case: {caseDetails.image_id}</span>
+                                <span>{t('supervisor.evaluations.case', { imageId: caseDetails.image_id })}</span>
                                 <span className="text-sm text-gray-500">
-                                  {caseEvaluations.length} evaluations
+                                  {t('supervisor.evaluations.count', { count: caseEvaluations.length })}
                                 </span>
                               </div>
                             </AccordionTrigger>
                             <AccordionContent>
                               <div className="pt-2 pb-4 px-4">
                                 {Object.entries(modelGroups).map(([modelId, modelEvals]) => {
-                                  const modelName = modelEvals[0]?.model_name || 'Unknown Model';
+                                  const modelName = modelEvals[0]?.model_name || t('supervisor.unknownModel');
+                                  const slot = modelEvals.find(evaluation => evaluation.slot !== null)?.slot;
                                   
                                   return (
                                     <div key={modelId} className="mb-6 border rounded-lg p-4">
                                       <h4 className="font-medium text-lg mb-3">
-                                        Model: {modelName}
+                                        {t('supervisor.evaluations.model', { name: modelName })}
+                                        {slot && (
+                                          <span className="ml-2 text-sm font-normal text-gray-500">
+                                            {t('supervisor.evaluations.shownAs', { slot })}
+                                          </span>
+                                        )}
                                       </h4>
                                       <Table>
                                         <TableHeader>
                                           <TableRow>
-                                            <TableHead>Metric</TableHead>
-                                            <TableHead>Score</TableHead>
-                                            <TableHead>Date</TableHead>
+                                            <TableHead>{t('supervisor.columns.metric')}</TableHead>
+                                            <TableHead>{t('supervisor.columns.score')}</TableHead>
+                                            <TableHead>{t('supervisor.columns.date')}</TableHead>
                                           </TableRow>
                                         </TableHeader>
                                         <TableBody>
                                           {modelEvals.map(evaluation => (
                                             <TableRow key={evaluation.id}>
-                                              <TableCell>{getMetricName(evaluation.metric_id)}</TableCell>
+                                              <TableCell>{getEvaluationMetricName(evaluation)}</TableCell>
                                               <TableCell className={getScoreColor(evaluation.score)}>
                                                 {evaluation.score}
                                               </TableCell>
@@ -489,9 +470,66 @@ function SupervisorDashboard() {
                                           ))}
                                         </TableBody>
                                       </Table>
+                                      {(modelEvals[0].comment || modelEvals[0].error_tags.length > 0) && (
+                                        <div className="mt-3 space-y-2">
+                                          <div className="flex flex-wrap gap-1">
+                                            {modelEvals[0].error_tags.map(tagId => (
+                                              <span
+                                                key={tagId}
+                                                className="px-2 py-0.5 rounded-full border border-red-300 bg-red-50 text-xs text-red-700"
+                                              >
+                                                {getErrorTagLabel(tagId)}
+                                              </span>
+                                            ))}
+                                          </div>
+                                          {modelEvals[0].comment && (
+                                            <p className="text-sm text-gray-600 whitespace-pre-wrap">
+                                              {modelEvals[0].comment}
+                                            </p>
+                                          )}
+                                        </div>
+                                      )}
                                     </div>
                                   );
                                 })}
+
+                                {caseAnnotations.length > 0 && (
+                                  <div className="mb-6 border rounded-lg p-4">
+                                    <h4 className="font-medium text-lg mb-3">
+                                      {t('supervisor.evaluations.annotations')}
+                                    </h4>
+                                    <Table>
+                                      <TableHeader>
+                                        <TableRow>
+                                          <TableHead>{t('supervisor.columns.type')}</TableHead>
+                                          <TableHead>{t('supervisor.columns.image')}</TableHead>
+                                          <TableHead>{t('supervisor.columns.model')}</TableHead>
+                                          <TableHead>{t('supervisor.columns.metric')}</TableHead>
+                                          <TableHead>{t('supervisor.columns.label')}</TableHead>
+                                          <TableHead>{t('supervisor.columns.date')}</TableHead>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {caseAnnotations.map(annotation => (
+                                          <TableRow key={annotation.id}>
+                                            <TableCell>{t(`annotationTypes.${annotation.type}`)}</TableCell>
+                                            <TableCell>{annotation.imageIndex + 1}</TableCell>
+                                            <TableCell>
+                                              {annotation.responseId
+                                                ? responseModelNames[annotation.responseId] || t('supervisor.unknownModel')
+                                                : '—'}
+                                            </TableCell>
+                                            <TableCell>
+                                              {annotation.metricId ? getMetricName(annotation.metricId) : '—'}
+                                            </TableCell>
+                                            <TableCell>{annotation.text || '—'}</TableCell>
+                                            <TableCell>{formatDate(annotation.createdAt)}</TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                  </div>
+                                )}
                               </div>
                             </AccordionContent>
                           </AccordionItem>
@@ -505,18 +543,18 @@ function SupervisorDashboard() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Case ID</TableHead>
-                      <TableHead>Evaluator</TableHead>
-                      <TableHead>Model</TableHead>
-                      <TableHead>Metric</TableHead>
-                      <TableHead>Score</TableHead>
-                      <TableHead>Date</TableHead>
+                      <TableHead>{t('supervisor.columns.caseId')}</TableHead>
+                      <TableHead>{t('supervisor.columns.evaluator')}</TableHead>
+                      <TableHead>{t('supervisor.columns.model')}</TableHead>
+                      <TableHead>{t('supervisor.columns.metric')}</TableHead>
+                      <TableHead>{t('supervisor.columns.score')}</TableHead>
+                      <TableHead>{t('supervisor.columns.date')}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {filteredEvaluations.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center">No evaluations found</TableCell>
+                        <TableCell colSpan={6} className="text-center">{t('supervisor.evaluations.empty')}</TableCell>
                       </TableRow>
                     ) : (
                       filteredEvaluations.map(evaluation => {
@@ -525,8 +563,8 @@ function SupervisorDashboard() {
                           <TableRow key={evaluation.id}>
                             <TableCell>{caseDetails.image_id}</TableCell>
                             <TableCell>{getEvaluatorName(evaluation.evaluator_id)}</TableCell>
-                            <TableCell>{evaluation.model_name || 'Unknown'}</TableCell>
-                            <TableCell>{getMetricName(evaluation.metric_id)}</TableCell>
+                            <TableCell>{evaluation.model_name || t('supervisor.unknownModel')}</TableCell>
+                            <TableCell>{getEvaluationMetricName(evaluation)}</TableCell>
                             <TableCell className={getScoreColor(evaluation.score)}>
                               {evaluation.score}
                             </TableCell>
@@ -545,8 +583,8 @@ function SupervisorDashboard() {
         <TabsContent value="metrics">
           <Card>
             <CardHeader>
-              <CardTitle>Metrics</CardTitle>
-              <CardDescription>All evaluation metrics used in the system</CardDescription>
+              <CardTitle>{t('supervisor.tabs.metrics')}</CardTitle>
+              <CardDescription>{t('supervisor.metrics.description')}</CardDescription>
             </CardHeader>
             <CardContent>
               {loading.metrics ? (
@@ -557,22 +595,22 @@ function SupervisorDashboard() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>ID</TableHead>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Description</TableHead>
+                      <TableHead>{t('supervisor.columns.id')}</TableHead>
+                      <TableHead>{t('supervisor.columns.name')}</TableHead>
+                      <TableHead>{t('supervisor.columns.description')}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {metrics.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={3} className="text-center">No metrics found</TableCell>
+                        <TableCell colSpan={3} className="text-center">{t('supervisor.metrics.empty')}</TableCell>
                       </TableRow>
                     ) : (
                       metrics.map(metric => (
                         <TableRow key={metric.id}>
                           <TableCell>{metric.id}</TableCell>
                           <TableCell>{metric.name}</TableCell>
-                          <TableCell>{metric.description || 'No description available'}</TableCell>
+                          <TableCell>{metric.description || t('supervisor.metrics.noDescription')}</TableCell>
                         </TableRow>
                       ))
                     )}
@@ -582,14 +620,239 @@ function SupervisorDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="position-bias">
+          <Card>
+            <CardHeader>
+              <CardTitle>{scopedTitle(t('supervisor.tabs.positionBias'))}</CardTitle>
+              <CardDescription>{t('supervisor.positionBias.description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading.evaluations ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : slottedEvaluations.length === 0 ? (
+                <div className="text-center py-6">
+                  {t('supervisor.positionBias.empty')}
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('supervisor.columns.slot')}</TableHead>
+                        <TableHead>{t('supervisor.columns.evaluations')}</TableHead>
+                        <TableHead>{t('supervisor.columns.meanScore')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {slots.map(slot => {
+                        const summary = summarizeScores(slottedEvaluations.filter(evaluation => evaluation.slot === slot))
+                        return (
+                          <TableRow key={slot}>
+                            <TableCell>{t('supervisor.slot', { slot })}</TableCell>
+                            <TableCell>{summary.count}</TableCell>
+                            <TableCell>
+                              {summary.mean === null
+                                ? '—'
+                                : formatNumber(summary.mean, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('supervisor.columns.model')}</TableHead>
+                        {slots.map(slot => (
+                          <TableHead key={slot}>{t('supervisor.slot', { slot })}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {slotModels.map(modelName => (
+                        <TableRow key={modelName}>
+                          <TableCell>{modelName}</TableCell>
+                          {slots.map(slot => {
+                            const summary = summarizeScores(slottedEvaluations.filter(
+                              evaluation => evaluation.slot === slot && evaluation.model_name === modelName
+                            ))
+                            return (
+                              <TableCell key={slot}>
+                                {summary.mean === null
+                                  ? '—'
+                                  : t('supervisor.positionBias.meanWithCount', {
+                                      mean: formatNumber(summary.mean, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+                                      count: summary.count
+                                    })}
+                              </TableCell>
+                            )
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="failure-modes">
+          <Card>
+            <CardHeader>
+              <CardTitle>{scopedTitle(t('supervisor.tabs.failureModes'))}</CardTitle>
+              <CardDescription>{t('supervisor.failureModes.description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading.evaluations ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : feedbackEntries.length === 0 && reportSpans.length === 0 ? (
+                <div className="text-center py-6">
+                  {t('supervisor.failureModes.empty')}
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('supervisor.columns.errorTag')}</TableHead>
+                        {taggedModels.map(modelName => (
+                          <TableHead key={modelName}>{modelName}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {errorTags.map(tag => (
+                        <TableRow key={tag.id}>
+                          <TableCell>{errorTagLabel(tag, t)}</TableCell>
+                          {taggedModels.map(modelName => (
+                            <TableCell key={modelName}>
+                              {feedbackEntries.filter(
+                                entry => entry.model_name === modelName && entry.error_tags.includes(tag.id)
+                              ).length}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('supervisor.columns.case')}</TableHead>
+                        <TableHead>{t('supervisor.columns.evaluator')}</TableHead>
+                        <TableHead>{t('supervisor.columns.model')}</TableHead>
+                        <TableHead>{t('supervisor.columns.errorTags')}</TableHead>
+                        <TableHead>{t('supervisor.columns.comment')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {feedbackEntries.map(entry => (
+                        <TableRow key={`${entry.case_id}:${entry.evaluator_id}:${entry.model_id}`}>
+                          <TableCell>{getCaseDetails(entry.case_id).image_id}</TableCell>
+                          <TableCell>{getEvaluatorName(entry.evaluator_id)}</TableCell>
+                          <TableCell>{entry.model_name}</TableCell>
+                          <TableCell>{entry.error_tags.map(getErrorTagLabel).join(', ') || '—'}</TableCell>
+                          <TableCell className="whitespace-pre-wrap">{entry.comment || '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {reportSpans.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t('supervisor.columns.case')}</TableHead>
+                          <TableHead>{t('supervisor.columns.model')}</TableHead>
+                          <TableHead>{t('supervisor.columns.highlightedText')}</TableHead>
+                          <TableHead>{t('supervisor.columns.errorTag')}</TableHead>
+                          <TableHead>{t('supervisor.columns.severity')}</TableHead>
+                          <TableHead>{t('supervisor.columns.gtSentence')}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportSpans.map(span => (
+                          <TableRow key={span.id}>
+                            <TableCell>{getCaseDetails(span.caseId).image_id}</TableCell>
+                            <TableCell>{responseModelNames[span.responseId] || t('supervisor.unknownModel')}</TableCell>
+                            <TableCell className="max-w-xs">“{span.text}”</TableCell>
+                            <TableCell>{getErrorTagLabel(span.errorTag)}</TableCell>
+                            <TableCell>{t(`severity.${span.severity}`)}</TableCell>
+                            <TableCell>
+                              {span.groundTruthSentence !== null ? `#${span.groundTruthSentence + 1}` : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="leaderboard">
+          <Card>
+            <CardHeader>
+              <CardTitle>{scopedTitle(t('supervisor.tabs.leaderboard'))}</CardTitle>
+              <CardDescription>
+                {t('supervisor.leaderboard.description', { count: filteredPreferences.length })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading.preferences ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : leaderboard.length === 0 ? (
+                <div className="text-center py-6">
+                  {t('supervisor.leaderboard.empty')}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('supervisor.columns.rank')}</TableHead>
+                      <TableHead>{t('supervisor.columns.model')}</TableHead>
+                      <TableHead>{t('supervisor.columns.rating')}</TableHead>
+                      <TableHead>{t('supervisor.columns.wins')}</TableHead>
+                      <TableHead>{t('supervisor.columns.ties')}</TableHead>
+                      <TableHead>{t('supervisor.columns.losses')}</TableHead>
+                      <TableHead>{t('supervisor.columns.comparisons')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leaderboard.map((entry, index) => (
+                      <TableRow key={entry.model}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell>{entry.model}</TableCell>
+                        <TableCell>{Math.round(entry.rating)}</TableCell>
+                        <TableCell>{entry.wins}</TableCell>
+                        <TableCell>{entry.ties}</TableCell>
+                        <TableCell>{entry.losses}</TableCell>
+                        <TableCell>{entry.comparisons}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {error && (
-        <Card className="mt-6 border-red-500">
-          <CardContent className="pt-6">
-            <p className="text-red-500">{error}</p>
-          </CardContent>
-        </Card>
+        <QueryError className="mt-6" message={t(error)} onRetry={retryFailedQueries} />
       )}
     </div>
   )
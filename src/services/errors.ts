@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { ApiValidationError } from '@/services/schemas';
+
+// Every failed request reaches callers as an ApiError with one of these
+// kinds, so pages and the outbox don't need to know about HTTP status codes
+export type ApiErrorKind =
+  // No response at all: offline, DNS or CORS failure
+  | 'network'
+  // The client gave up waiting, or a gateway did (408 / 504)
+  | 'timeout'
+  // 400 / 422, the request itself was rejected
+  | 'validation'
+  // 401 / 403
+  | 'auth'
+  | 'not-found'
+  // Other 4xx, e.g. 409 or 429
+  | 'client'
+  // Other 5xx
+  | 'server'
+  // Aborted by the caller, e.g. a page that was left
+  | 'cancelled';
+
+export class ApiError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    readonly endpoint: string,
+    readonly status?: number,
+    // Response body, for validation errors the field messages
+    readonly data?: unknown
+  ) {
+    super(`${kind} error from ${endpoint || 'API'}${status ? ` (HTTP ${status})` : ''}`);
+    this.name = 'ApiError';
+  }
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not-found';
+  return status >= 500 ? 'server' : 'client';
+}
+
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) {
+    return new ApiError('cancelled', axios.isAxiosError(error) ? error.config?.url || '' : '');
+  }
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('network', '');
+  }
+
+  const endpoint = error.config?.url || '';
+  if (error.response) {
+    return new ApiError(kindForStatus(error.response.status), endpoint, error.response.status, error.response.data);
+  }
+  return new ApiError(error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network', endpoint);
+}
+
+// Failures that may go away on their own, so are worth sending again
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  return error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server' || error.status === 429;
+}
+
+// Catalog key of the message to show the user for a failed request
+function errorMessageKey(error: unknown): string {
+  if (error instanceof ApiValidationError) return 'errors.invalidResponse';
+  if (!(error instanceof ApiError)) return 'errors.unknown';
+  switch (error.kind) {
+    case 'network':
+      return 'errors.network';
+    case 'timeout':
+      return 'errors.timeout';
+    case 'validation':
+      return 'errors.validation';
+    case 'auth':
+      return error.status === 401 ? 'errors.unauthorized' : 'errors.forbidden';
+    case 'not-found':
+      return 'errors.notFound';
+    case 'server':
+      return 'errors.server';
+    default:
+      return 'errors.unknown';
+  }
+}
+
+export { toApiError, isRetryable, errorMessageKey };
@@ -1,6 +1,38 @@
-import axios from 'axios'
-import { Record, Metric } from '@/types'
-import useEvalutationStore from '@/stores/evaluation'
+import axios, { InternalAxiosRequestConfig } from 'axios'
+import { z } from 'zod'
+import { Record, Metric, SessionUser, Annotation, AnnotationType, ErrorTag, ResponseFeedback, ReportSpan, SpanSeverity, CasePreference, ReportSectionName } from '@/types'
+import { splitVariantMetricId } from '@/lib/languages'
+import { toUserRole } from '@/lib/auth'
+import useSessionStore from '@/stores/session'
+import {
+  parseResponse,
+  userSchema,
+  loginSchema,
+  caseSchema,
+  assignedCasesSchema,
+  caseAssignmentSchema,
+  modelSchema,
+  caseWithResponsesSchema,
+  metricSchema,
+  evaluationSchema,
+  caseFullDetailsSchema,
+  annotationSchema,
+  evaluatorAnnotationSchema,
+  reportSpanSchema,
+  evaluatorReportSpanSchema,
+  preferenceSchema,
+  errorTagSchema,
+  User,
+  Case,
+  AssignedCases,
+  CaseAssignment,
+  Model,
+  CaseWithResponses,
+  EvaluationData
+} from '@/services/schemas'
+import { normalizeCase } from '@/services/normalize'
+import { ApiError, toApiError, isRetryable } from '@/services/errors'
+import { DEMO_MODE, DEMO_METRICS } from '@/lib/demo'
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://medical-backend-1056714537361.us-central1.run.app'
 
@@ -12,48 +44,70 @@ const instance = axios.create({
   }
 })
 
-// Add response interceptor for better error handling
-instance.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Error:', error.response?.data || error.message)
-    throw error
+// Authenticate every request as the signed-in user
+instance.interceptors.request.use((config) => {
+  const token = useSessionStore.getState().token
+  if (token) {
+    config.headers.Authorization = `Token ${token}`
   }
-)
+  return config
+})
 
-// Cache for metrics and models data
-let metricsCache = null;
-let modelsCache = null;
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-let lastMetricsFetch = 0;
-let lastModelsFetch = 0;
+// GETs are retried on network errors, timeouts and 5xx; other methods may
+// not be safe to send twice
+const MAX_GET_RETRIES = 3
+const RETRY_BASE_DELAY = 500
+const MAX_RETRY_DELAY = 8000
 
-// Function to get metrics with caching
-async function getCachedMetrics() {
-  const now = Date.now();
-  if (metricsCache && (now - lastMetricsFetch) < CACHE_DURATION) {
-    return metricsCache;
-  }
+type RetryableConfig = InternalAxiosRequestConfig & { retryCount?: number }
 
-  const response = await instance.get('metrics/');
-  metricsCache = response.data;
-  lastMetricsFetch = now;
-  return metricsCache;
+// Exponential backoff with jitter, so clients don't retry in lockstep
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** attempt, MAX_RETRY_DELAY)
+  return delay / 2 + Math.random() * (delay / 2)
 }
 
-// Function to get models with caching
-async function getCachedModels() {
-  const now = Date.now();
-  if (modelsCache && (now - lastModelsFetch) < CACHE_DURATION) {
-    return modelsCache;
-  }
-
-  const response = await instance.get('models/');
-  modelsCache = response.data;
-  lastModelsFetch = now;
-  return modelsCache;
+// Waits before a retry, stopping early if the caller aborts the request
+function waitForRetry(config: RetryableConfig, delay: number): Promise<void> {
+  const signal = config.signal as AbortSignal | undefined
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('cancelled', config.url || ''))
+      return
+    }
+    const timer = setTimeout(resolve, delay)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new ApiError('cancelled', config.url || ''))
+    }, { once: true })
+  })
 }
 
+// Turns every failure into an ApiError, retrying idempotent requests first
+instance.interceptors.response.use(
+  (response) => response,
+  async (rawError) => {
+    const error = toApiError(rawError)
+    const config: RetryableConfig | undefined = axios.isAxiosError(rawError) ? rawError.config : undefined
+    const attempt = config?.retryCount ?? 0
+
+    if (config?.method === 'get' && isRetryable(error) && attempt < MAX_GET_RETRIES) {
+      config.retryCount = attempt + 1
+      await waitForRetry(config, retryDelay(attempt))
+      return instance(config)
+    }
+
+    if (error.kind !== 'cancelled') {
+      console.error('API Error:', error.message, error.data ?? '')
+    }
+    // The token expired or was revoked; RequireAuth sends the user back to login
+    if (error.status === 401 && useSessionStore.getState().token) {
+      useSessionStore.getState().clearSession(true)
+    }
+    throw error
+  }
+)
+
 // Function to test the API connectivity
 async function testBackendConnection(): Promise<boolean> {
   try {
@@ -65,69 +119,70 @@ async function testBackendConnection(): Promise<boolean> {
   }
 }
 
-interface ApiResponse<T> {
-  data: T
-  status: number
-  message?: string
-}
-
-interface UserDetails {
-  id: string
-  name: string
-  email: string
-  role: string
-}
-
-interface EvaluationData {
-  id: string
-  case_assignment: string
-  model_response: string
-  metric: string
-  score: number
-  created_at: string
+// An unknown role grants nothing, rather than being read as a lesser role
+function toSessionUser(user: User): SessionUser {
+  const role = toUserRole(user.role);
+  if (!role) {
+    console.warn('Unknown user role, access denied:', user.role);
+  }
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role
+  };
 }
 
-interface ModelResponse {
-  id: string
-  model: string
-  name: string
-  response: string
+// Exchange a username and password for an API token
+async function login(username: string, password: string): Promise<{ token: string; user: SessionUser }> {
+  try {
+    const response = await instance.post('auth/login/', { username, password });
+    const session = parseResponse(loginSchema, response.data, 'auth/login/');
+    return { token: session.token, user: toSessionUser(session.user) };
+  } catch (error) {
+    console.error('Error logging in:', error);
+    throw error;
+  }
 }
 
-interface CaseAssignment {
-  id: string
-  case: string
-  evaluator: string
+// Revoke the current token on the backend
+async function logout() {
+  try {
+    await instance.post('auth/logout/');
+  } catch (error) {
+    console.error('Error logging out:', error);
+    throw error;
+  }
 }
 
-// Get user details and role
-async function getUserDetails(userId: string): Promise<UserDetails> {
+// The user the current token belongs to
+async function getCurrentUser(signal?: AbortSignal): Promise<SessionUser> {
   try {
-    const response = await instance.get(`users/${userId}/`);
-    return response.data;
+    const response = await instance.get('auth/me/', { signal });
+    return toSessionUser(parseResponse(userSchema, response.data, 'auth/me/'));
   } catch (error) {
-    console.error('Error fetching user details:', error);
+    console.error('Error fetching current user:', error);
     throw error;
   }
 }
 
-// Check if a user is a supervisor
-async function isSupervisor(userId: string): Promise<boolean> {
+// Get user details and role
+async function getUserDetails(userId: string): Promise<User> {
   try {
-    const user = await getUserDetails(userId);
-    return user.role === 'supervisor';
+    const response = await instance.get(`users/${userId}/`);
+    return parseResponse(userSchema, response.data, `users/${userId}/`);
   } catch (error) {
-    console.error('Error checking if user is supervisor:', error);
-    return false;
+    console.error('Error fetching user details:', error);
+    throw error;
   }
 }
 
 // Get all users/evaluators (for supervisors)
-async function getAllEvaluators(): Promise<any[]> {
+async function getAllEvaluators(signal?: AbortSignal): Promise<User[]> {
   try {
     // Only get users with role=evaluator
-    const response = await instance.get('users/?role=evaluator');
-    return response.data;
+    const response = await instance.get('users/?role=evaluator', { signal });
+    return parseResponse(z.array(userSchema), response.data, 'users/?role=evaluator');
   } catch (error) {
     console.error('Error fetching evaluators:', error);
     throw error;
@@ -135,10 +190,11 @@ async function getAllEvaluators(): Promise<any[]> {
 }
 
 // Get all evaluations (for supervisors) with optional filtering
-async function getAllEvaluations(evaluatorId?: string, raw = true): Promise<EvaluationData[]> {
+async function getAllEvaluations(evaluatorId?: string, signal?: AbortSignal): Promise<EvaluationData[]> {
   try {
-    const response = await instance.get(`evaluations/${evaluatorId ? `?evaluator=${evaluatorId}` : ''}`);
-    return response.data;
+    const url = `evaluations/${evaluatorId ? `?evaluator=${evaluatorId}` : ''}`;
+    const response = await instance.get(url, { signal });
+    return parseResponse(z.array(evaluationSchema), response.data, url);
   } catch (error) {
     console.error('Error fetching evaluations:', error);
     throw error;
@@ -146,277 +202,102 @@ async function getAllEvaluations(evaluatorId?: string, raw = true): Promise<Eval
 }
 
 // Get all cases with details (for supervisors)
-async function getAllCases(): Promise<any[]> {
+async function getAllCases(signal?: AbortSignal): Promise<Case[]> {
   try {
-    const response = await instance.get('cases/');
-    return response.data;
+    const response = await instance.get('cases/', { signal });
+    return parseResponse(z.array(caseSchema), response.data, 'cases/');
   } catch (error) {
     console.error('Error fetching cases:', error);
     throw error;
   }
 }
 
-// New function to get all cases assigned to a specific evaluator (doctor)
-async function getEvaluatorCases(evaluatorId: string): Promise<any[]> {
+// Get a single case (for supervisors)
+async function getCase(caseId: string, signal?: AbortSignal): Promise<Case> {
   try {
-    const response = await instance.get(`users/${evaluatorId}/cases/`);
-    return response.data;
+    const response = await instance.get(`cases/${caseId}/`, { signal });
+    return parseResponse(caseSchema, response.data, `cases/${caseId}/`);
   } catch (error) {
-    console.error('Error fetching evaluator cases:', error);
+    console.error('Error fetching case:', error);
     throw error;
   }
 }
 
-// Types for evaluator cases response
-interface CaseWithDetails {
-  id: string;
-  image_id: string;
-  image_url: string;
-  status: string;
-  completed_evaluations: number;
-  total_evaluations: number;
-  last_updated: string;
+// Get a case with its model responses (for supervisors)
+async function getCaseWithResponses(caseId: string, signal?: AbortSignal): Promise<CaseWithResponses> {
+  try {
+    const response = await instance.get(`cases/${caseId}/details/`, { signal });
+    return parseResponse(caseWithResponsesSchema, response.data, `cases/${caseId}/details/`);
+  } catch (error) {
+    console.error('Error fetching case details:', error);
+    throw error;
+  }
 }
 
-interface CasesResponse {
-  cases: CaseWithDetails[];
-  total_cases: number;
-  pending_cases: number;
-  in_progress_cases: number;
-  completed_cases: number;
+// Get which evaluator each case is assigned to (for supervisors)
+async function getCaseAssignments(signal?: AbortSignal): Promise<CaseAssignment[]> {
+  try {
+    const response = await instance.get('case-assignments/', { signal });
+    return parseResponse(z.array(caseAssignmentSchema), response.data, 'case-assignments/');
+  } catch (error) {
+    console.error('Error fetching case assignments:', error);
+    throw error;
+  }
 }
 
-// New optimized function to get all cases assigned to a specific evaluator with full details
-async function getEvaluatorCasesWithDetails(evaluatorId: string): Promise<CasesResponse> {
+// Get all models (for supervisors)
+async function getModels(signal?: AbortSignal): Promise<Model[]> {
   try {
-    const response = await instance.get(`users/${evaluatorId}/cases_with_details/`);
-    const casesData = response.data;
-    
-    if (casesData.cases && Array.isArray(casesData.cases)) {
-      return casesData as CasesResponse;
-    }
+    const response = await instance.get('models/', { signal });
+    return parseResponse(z.array(modelSchema), response.data, 'models/');
+  } catch (error) {
+    console.error('Error fetching models:', error);
+    throw error;
+  }
+}
 
-    return {
-      cases: (casesData.cases || []).map((caseItem: any) => ({
-        id: caseItem.id,
-        image_id: caseItem.image_id,
-        image_url: caseItem.image_url,
-        status: caseItem.status || 'pending',
-        completed_evaluations: caseItem.completed_evaluations || 0,
-        total_evaluations: caseItem.total_evaluations || 0,
-        last_updated: caseItem.updated_at || caseItem.created_at
-      })),
-      total_cases: casesData.total_cases || 0,
-      pending_cases: casesData.pending_cases || 0,
-      in_progress_cases: casesData.in_progress_cases || 0,
-      completed_cases: casesData.completed_cases || 0
-    };
+// New function to get all cases assigned to a specific evaluator (doctor)
+async function getEvaluatorCases(evaluatorId: string, signal?: AbortSignal): Promise<Case[]> {
+  try {
+    const response = await instance.get(`users/${evaluatorId}/cases/`, { signal });
+    return parseResponse(z.array(caseSchema), response.data, `users/${evaluatorId}/cases/`);
   } catch (error) {
     console.error('Error fetching evaluator cases:', error);
-    if (error.response) {
-      console.error('Response data:', error.response.data);
-      console.error('Response status:', error.response.status);
-      if (error.response.status === 504) {
-        throw new Error('Request timeout - the server took too long to respond. Please try again.');
-      }
-    }
     throw error;
   }
 }
 
-async function getRecords(id: string): Promise<{ data: Record[] }> {
+// New optimized function to get all cases assigned to a specific evaluator with full details
+async function getEvaluatorCasesWithDetails(evaluatorId: string, signal?: AbortSignal): Promise<AssignedCases> {
   try {
-    const urlParams = new URLSearchParams(window.location.search);
-    const doctorId = urlParams.get('doctorId');
-    const isCaseId = !doctorId || id !== doctorId;
-    
-    if (isCaseId) {
-      const response = await instance.get(`cases/${id}/full_details/`, {
-        params: {
-          evaluator_id: doctorId
-        }
-      });
-
-      const data = response.data;
-
-      if (!data || !data.imageUrl) {
-        console.error('Invalid case data structure:', data);
-        throw new Error('Invalid case data structure received from server');
-      }
+    const url = `users/${evaluatorId}/cases_with_details/`;
+    const response = await instance.get(url, { signal });
+    return parseResponse(assignedCasesSchema, response.data, url);
+  } catch (error) {
+    console.error('Error fetching evaluator cases:', error);
+    throw error;
+  }
+}
 
-      const recordData: Record = {
-        id: data.id,
-        imageUrl: data.imageUrl,
-        image_id: data.imageId,
-        status: data.status,
-        modelOutputs: (data.modelOutputs || []).map((response: any) => ({
-          responseId: response.responseId,
-          response: response.response || '',
-          evaluations: (response.evaluations || []).map((evaluation: any) => ({
-            responseId: evaluation.responseId,
-            metricId: evaluation.metricId,
-            metricName: evaluation.metricName,
-            score: evaluation.score || 0
-          }))
-        })),
-        metrics: (data.metrics || []).map((metric: any) => ({
-          id: metric.id,
-          name: metric.name,
-          description: metric.description
-        })),
-        evaluations: (data.evaluations || []).map((evaluation: any) => ({
-          responseId: evaluation.responseId,
-          metricId: evaluation.metricId,
-          metricName: evaluation.metricName,
-          score: evaluation.score || 0
-        })),
-        groundTruth: (() => {
-          try {
-            // If it's already an object with findings/impressions, use it directly
-            if (typeof data.groundTruth === 'object' && data.groundTruth !== null) {
-              return {
-                findings: data.groundTruth.findings || '',
-                impressions: data.groundTruth.impressions || data.groundTruth.impression || ''
-              };
-            }
-
-            // If it's a string, try to parse as JSON first
-            if (typeof data.groundTruth === 'string') {
-              // Check if it looks like JSON
-              if (data.groundTruth.trim().startsWith('{')) {
-                const parsed = JSON.parse(data.groundTruth);
-                return {
-                  findings: parsed.findings || '',
-                  impressions: parsed.impressions || parsed.impression || ''
-                };
-              } else {
-                // If it's not JSON, treat it as plain text and put it in findings
-                return {
-                  findings: data.groundTruth || '',
-                  impressions: ''
-                };
-              }
-            }
-
-            // Fallback to empty strings if no valid data
-            return { findings: '', impressions: '' };
-          } catch (err) {
-            console.error('Error parsing ground truth:', err);
-            // If JSON parsing fails, treat the entire string as findings
-            return { 
-              findings: typeof data.groundTruth === 'string' ? data.groundTruth : '',
-              impressions: '' 
-            };
-          }
-        })(),
-        models: [],
-        navigation: data.navigation || undefined
-      };
+async function getRecords(id: string, signal?: AbortSignal): Promise<{ data: Record[] }> {
+  try {
+    const doctorId = useSessionStore.getState().user?.id;
+    const url = `cases/${id}/full_details/`;
+    const response = await instance.get(url, {
+      signal,
+      params: {
+        evaluator_id: doctorId
+      }
+    });
 
-      return { data: [recordData] };
-    } else {
-      const casesResponse = await instance.get(`users/${id}/cases/`);
-      const casesData = casesResponse.data;
-      
-      const records: Record[] = casesData.map((caseItem: any) => {
-        const recordData: Record = {
-          id: caseItem.id,
-          imageUrl: caseItem.image_url,
-          image_id: caseItem.image_id,
-          status: caseItem.status,
-          modelOutputs: (caseItem.modelOutputs || []).map((response: any) => ({
-            responseId: response.responseId,
-            response: response.response || '',
-            evaluations: (response.evaluations || []).map((evaluation: any) => ({
-              responseId: evaluation.responseId,
-              metricId: evaluation.metricId,
-              metricName: evaluation.metricName,
-              score: evaluation.score || 0
-            }))
-          })),
-          metrics: (caseItem.metrics || []).map((metric: any) => ({
-            id: metric.id,
-            name: metric.name,
-            description: metric.description
-          })),
-          evaluations: (caseItem.evaluations || []).map((evaluation: any) => ({
-            responseId: evaluation.responseId,
-            metricId: evaluation.metricId,
-            metricName: evaluation.metricName,
-            score: evaluation.score || 0
-          })),
-          groundTruth: (() => {
-            try {
-              // If it's already an object with findings/impressions, use it directly
-              if (typeof caseItem.groundTruth === 'object' && caseItem.groundTruth !== null) {
-                return {
-                  findings: caseItem.groundTruth.findings || '',
-                  impressions: caseItem.groundTruth.impressions || caseItem.groundTruth.impression || ''
-                };
-              }
-
-              // If it's a string, try to parse as JSON first
-              if (typeof caseItem.groundTruth === 'string') {
-                // Check if it looks like JSON
-                if (caseItem.groundTruth.trim().startsWith('{')) {
-                  const parsed = JSON.parse(caseItem.groundTruth);
-                  return {
-                    findings: parsed.findings || '',
-                    impressions: parsed.impressions || parsed.impression || ''
-                  };
-                } else {
-                  // If it's not JSON, treat it as plain text and put it in findings
-                  return {
-                    findings: caseItem.groundTruth || '',
-                    impressions: ''
-                  };
-                }
-              }
-
-              // Fallback to empty strings if no valid data
-              return { findings: '', impressions: '' };
-            } catch (err) {
-              console.error('Error parsing ground truth:', err);
-              // If JSON parsing fails, treat the entire string as findings
-              return { 
-                findings: typeof caseItem.groundTruth === 'string' ? caseItem.groundTruth : '',
-                impressions: '' 
-              };
-            }
-          })(),
-          models: [],
-          navigation: caseItem.navigation || undefined
-        };
-        
-        return recordData;
-      });
-      
-      return { data: records };
-    }
+    const data = parseResponse(caseFullDetailsSchema, response.data, url);
+    return { data: [normalizeCase(data)] };
   } catch (error) {
     console.error('Error fetching records:', error);
-    if (error.response) {
-      console.error('Response data:', error.response.data);
-      console.error('Response status:', error.response.status);
-      if (error.response.status === 504) {
-        throw new Error('Request timeout - the server took too long to respond. Please try again.');
-      }
-    }
     throw error;
   }
 }
 
-interface BatchSubmissionData {
-  case_id: string;
-  evaluations: {
-    response_id: string;
-    metrics: {
-      metric_id: string;
-      score: number;
-    }[];
-  }[];
-}
-
 // Function to update a single evaluation
 async function updateSingleEvaluation(data: {
   caseId: string;
@@ -424,9 +305,17 @@ async function updateSingleEvaluation(data: {
   metricId: string;
   evaluatorId: string;
   score: number;
+  // Blinded position the response was shown in, for position-bias checks
+  slot?: number;
 }) {
   try {
-    const response = await instance.post('cases/evaluations/update/', data);
+    // Per-language metric columns carry the language in their id
+    const { metricId, language } = splitVariantMetricId(data.metricId);
+    const response = await instance.post('cases/evaluations/update/', {
+      ...data,
+      metricId,
+      ...(language ? { language } : {})
+    });
     return response.data;
   } catch (error) {
     console.error('Error updating evaluation:', error);
@@ -435,13 +324,13 @@ async function updateSingleEvaluation(data: {
 }
 
 // Function to get existing evaluations for a case
-async function getExistingEvaluations(caseId: string) {
+async function getExistingEvaluations(caseId: string, signal?: AbortSignal): Promise<EvaluationData[]> {
   try {
-    const response = await instance.get(`cases/${caseId}/evaluations`);
-    return response.data;
+    const response = await instance.get(`cases/${caseId}/evaluations`, { signal });
+    return parseResponse(z.array(evaluationSchema), response.data, `cases/${caseId}/evaluations`);
   } catch (error) {
     console.error('Error fetching evaluations:', error);
-    return [];
+    throw error;
   }
 }
 
@@ -476,29 +365,273 @@ async function setRecords(submissionData: {
   }
 }
 
-// Get all metrics defined in the system
-async function getMetrics(): Promise<any[]> {
+interface AnnotationData {
+  id: string;
+  case?: string;
+  evaluator?: string;
+  image_index: number;
+  type: AnnotationType;
+  points: { x: number; y: number }[];
+  text?: string;
+  response_id: string | null;
+  metric_id: string | null;
+  created_at: string;
+}
+
+function toAnnotationData(annotation: Annotation): AnnotationData {
+  return {
+    id: annotation.id,
+    image_index: annotation.imageIndex,
+    type: annotation.type,
+    points: annotation.points,
+    text: annotation.text,
+    response_id: annotation.responseId,
+    metric_id: annotation.metricId,
+    created_at: annotation.createdAt
+  };
+}
+
+// Get an evaluator's image annotations for a case
+async function getAnnotations(caseId: string, evaluatorId: string, signal?: AbortSignal): Promise<Annotation[]> {
   try {
-    const response = await instance.get('metrics/');
-    
-    if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
-      console.warn('Metrics API returned empty or invalid data, providing fallback metrics');
-      return [
-        { id: '1', name: 'Accuracy' },
-        { id: '2', name: 'Completeness' },
-        { id: '3', name: 'Relevance' }
-      ];
-    }
-    
+    const response = await instance.get(`cases/${caseId}/annotations/`, {
+      params: { evaluator_id: evaluatorId },
+      signal
+    });
+    return parseResponse(z.array(annotationSchema), response.data, `cases/${caseId}/annotations/`);
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    throw error;
+  }
+}
+
+// Replace an evaluator's annotations for a case
+async function saveAnnotations(caseId: string, evaluatorId: string, annotations: Annotation[]) {
+  try {
+    const response = await instance.put(`cases/${caseId}/annotations/`, {
+      evaluator_id: evaluatorId,
+      annotations: annotations.map(toAnnotationData)
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error saving annotations:', error);
+    throw error;
+  }
+}
+
+// Get all annotations (for supervisors), optionally for one evaluator
+async function getAllAnnotations(evaluatorId?: string, signal?: AbortSignal): Promise<(Annotation & { caseId: string; evaluatorId: string })[]> {
+  try {
+    const response = await instance.get('annotations/', {
+      signal,
+      params: evaluatorId ? { evaluator: evaluatorId } : undefined
+    });
+    return parseResponse(z.array(evaluatorAnnotationSchema), response.data, 'annotations/');
+  } catch (error) {
+    console.error('Error fetching annotations:', error);
+    throw error;
+  }
+}
+
+const DEFAULT_ERROR_TAGS: ErrorTag[] = [
+  'hallucinated_finding',
+  'missed_finding',
+  'wrong_laterality',
+  'wrong_severity',
+  'incorrect_device_position'
+].map(id => ({ id, label: id, labelKey: `errorTags.${id}` }));
+
+// Get the error tags evaluators can pick from. The list is configured on the
+// backend; the defaults are used until it has been set up.
+async function getErrorTags(signal?: AbortSignal): Promise<ErrorTag[]> {
+  try {
+    const response = await instance.get('error-tags/', { signal });
+    const tags = parseResponse(z.array(errorTagSchema), response.data, 'error-tags/');
+    return tags.length > 0 ? tags : DEFAULT_ERROR_TAGS;
+  } catch (error) {
+    console.error('Error fetching error tags:', error);
+    throw error;
+  }
+}
+
+// Save an evaluator's comment and error tags for one model response
+async function updateResponseFeedback(data: {
+  caseId: string;
+  responseId: string;
+  evaluatorId: string;
+  comment: string;
+  errorTags: string[];
+}) {
+  try {
+    const response = await instance.post('cases/evaluations/feedback/', {
+      caseId: data.caseId,
+      responseId: data.responseId,
+      evaluatorId: data.evaluatorId,
+      comment: data.comment,
+      error_tags: data.errorTags
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error saving response feedback:', error);
+    throw error;
+  }
+}
+
+// Collect the comment and error tags per response from getExistingEvaluations rows
+function getResponseFeedback(evaluations: EvaluationData[]): ResponseFeedback[] {
+  const byResponse: { [responseId: string]: ResponseFeedback } = {};
+
+  evaluations.forEach((evaluation) => {
+    if (!evaluation.comment && !evaluation.error_tags?.length) return;
+    byResponse[evaluation.model_response] = {
+      responseId: evaluation.model_response,
+      comment: evaluation.comment || byResponse[evaluation.model_response]?.comment || '',
+      errorTags: evaluation.error_tags?.length
+        ? evaluation.error_tags
+        : byResponse[evaluation.model_response]?.errorTags || []
+    };
+  });
+
+  return Object.values(byResponse);
+}
+
+interface ReportSpanData {
+  id: string;
+  case?: string;
+  evaluator?: string;
+  response_id: string;
+  section?: ReportSectionName;
+  start: number;
+  end: number;
+  text: string;
+  error_tag: string;
+  severity: SpanSeverity;
+  ground_truth_sentence: number | null;
+  created_at: string;
+}
+
+function toReportSpanData(span: ReportSpan): ReportSpanData {
+  return {
+    id: span.id,
+    response_id: span.responseId,
+    section: span.section,
+    start: span.start,
+    end: span.end,
+    text: span.text,
+    error_tag: span.errorTag,
+    severity: span.severity,
+    ground_truth_sentence: span.groundTruthSentence,
+    created_at: span.createdAt
+  };
+}
+
+// Get an evaluator's highlighted report spans for a case
+async function getReportSpans(caseId: string, evaluatorId: string, signal?: AbortSignal): Promise<ReportSpan[]> {
+  try {
+    const response = await instance.get(`cases/${caseId}/spans/`, {
+      params: { evaluator_id: evaluatorId },
+      signal
+    });
+    return parseResponse(z.array(reportSpanSchema), response.data, `cases/${caseId}/spans/`);
+  } catch (error) {
+    console.error('Error fetching report spans:', error);
+    throw error;
+  }
+}
+
+// Replace an evaluator's highlighted report spans for a case
+async function saveReportSpans(caseId: string, evaluatorId: string, spans: ReportSpan[]) {
+  try {
+    const response = await instance.put(`cases/${caseId}/spans/`, {
+      evaluator_id: evaluatorId,
+      spans: spans.map(toReportSpanData)
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error saving report spans:', error);
+    throw error;
+  }
+}
+
+// Get all highlighted report spans (for supervisors), optionally for one evaluator
+async function getAllReportSpans(evaluatorId?: string, signal?: AbortSignal): Promise<(ReportSpan & { caseId: string; evaluatorId: string })[]> {
+  try {
+    const response = await instance.get('spans/', {
+      signal,
+      params: evaluatorId ? { evaluator: evaluatorId } : undefined
+    });
+    return parseResponse(z.array(evaluatorReportSpanSchema), response.data, 'spans/');
+  } catch (error) {
+    console.error('Error fetching report spans:', error);
+    throw error;
+  }
+}
+
+// Submit a ranking or pairwise judgement of a case's model responses. Replaces
+// any earlier judgement by the same evaluator in the same mode.
+async function submitPreference(preference: CasePreference) {
+  try {
+    const response = await instance.post('cases/preferences/', {
+      case: preference.caseId,
+      evaluator: preference.evaluatorId,
+      mode: preference.mode,
+      ranking: preference.ranking,
+      comparisons: preference.comparisons.map(comparison => ({
+        left_response_id: comparison.leftResponseId,
+        right_response_id: comparison.rightResponseId,
+        outcome: comparison.outcome
+      })),
+      slots: preference.slots
+    });
     return response.data;
+  } catch (error) {
+    console.error('Error submitting preference:', error);
+    throw error;
+  }
+}
+
+// Get an evaluator's earlier judgements for a case (at most one per mode)
+async function getCasePreferences(caseId: string, evaluatorId: string, signal?: AbortSignal): Promise<CasePreference[]> {
+  try {
+    const response = await instance.get(`cases/${caseId}/preferences/`, {
+      params: { evaluator_id: evaluatorId },
+      signal
+    });
+    return parseResponse(z.array(preferenceSchema), response.data, `cases/${caseId}/preferences/`);
+  } catch (error) {
+    console.error('Error fetching case preferences:', error);
+    throw error;
+  }
+}
+
+// Get all submitted judgements (for supervisors), optionally for one evaluator
+async function getAllPreferences(evaluatorId?: string, signal?: AbortSignal): Promise<CasePreference[]> {
+  try {
+    const response = await instance.get('preferences/', {
+      signal,
+      params: evaluatorId ? { evaluator: evaluatorId } : undefined
+    });
+    return parseResponse(z.array(preferenceSchema), response.data, 'preferences/');
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    throw error;
+  }
+}
+
+// Get all metrics defined in the system
+async function getMetrics(signal?: AbortSignal): Promise<Metric[]> {
+  if (DEMO_MODE) {
+    return DEMO_METRICS;
+  }
+
+  try {
+    const response = await instance.get('metrics/', { signal });
+    // An empty list means the study isn't set up; pages show that rather
+    // than letting evaluators score against made-up metrics
+    return parseResponse(z.array(metricSchema), response.data, 'metrics/');
   } catch (error) {
     console.error('Error fetching metrics:', error);
-    console.warn('Using fallback metrics due to API error');
-    return [
-      { id: '1', name: 'Accuracy' },
-      { id: '2', name: 'Completeness' },
-      { id: '3', name: 'Relevance' }
-    ];
+    throw error;
   }
 }
 
@@ -511,9 +644,27 @@ export {
   getAllEvaluators,
   getAllEvaluations,
   getAllCases,
+  getCase,
+  getCaseWithResponses,
+  getCaseAssignments,
+  getModels,
   getUserDetails,
-  isSupervisor,
+  login,
+  logout,
+  getCurrentUser,
   getMetrics,
   updateSingleEvaluation,
-  getExistingEvaluations
+  getExistingEvaluations,
+  getAnnotations,
+  saveAnnotations,
+  getAllAnnotations,
+  getErrorTags,
+  updateResponseFeedback,
+  getResponseFeedback,
+  getReportSpans,
+  saveReportSpans,
+  getAllReportSpans,
+  submitPreference,
+  getCasePreferences,
+  getAllPreferences
 }
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { caseFullDetailsSchema } from '@/services/schemas';
+import { normalizeCase } from '@/services/normalize';
+import fullCase from '@/services/__fixtures__/case-full.json';
+import missingOutputsCase from '@/services/__fixtures__/case-missing-outputs.json';
+import emptyReportsCase from '@/services/__fixtures__/case-empty-reports.json';
+import groundTruthOnlyCase from '@/services/__fixtures__/case-ground-truth-only.json';
+
+// Fixtures are raw payloads as the case details endpoint returns them, so
+// each one goes through the schema first, the same way getRecords does
+function normalize(payload: unknown) {
+  return normalizeCase(caseFullDetailsSchema.parse(payload));
+}
+
+describe('normalizeCase', () => {
+  describe('full case', () => {
+    const record = normalize(fullCase);
+
+    it('keeps the case identity and navigation', () => {
+      expect(record.id).toBe('12');
+      expect(record.image_id).toBe('CXR-0012');
+      expect(record.status).toBe('in_progress');
+      expect(record.navigation).toEqual({ hasPrevious: false, hasNext: true, previousId: null, nextId: '13' });
+      expect(record.models).toEqual([]);
+    });
+
+    it('maps images, defaulting unknown roles and dropping images without a url', () => {
+      expect(record.images).toEqual([
+        { id: 'a', url: 'https://example.org/cases/12/frontal.png', role: 'frontal', label: undefined, studyDate: undefined },
+        { id: 'b', url: 'https://example.org/cases/12/lateral.png', role: 'lateral', label: undefined, studyDate: '2024-03-02' },
+        { id: 'c', url: 'https://example.org/cases/12/other.png', role: 'frontal', label: undefined, studyDate: undefined }
+      ]);
+    });
+
+    it('parses fenced JSON and plain-text responses into sections', () => {
+      const [first, second] = record.modelOutputs;
+
+      expect(first.responseId).toBe('101');
+      expect(first.sections).toEqual({ findings: 'Enlarged cardiac silhouette.', impressions: 'Cardiomegaly.' });
+      expect(first.language).toBe('en');
+      expect(first.evaluations).toEqual([{ responseId: '101', metricId: '3', metricName: 'Accuracy', score: 4 }]);
+
+      expect(second.responseId).toBe('102');
+      expect(second.sections).toEqual({ findings: 'Clear lungs.', impressions: 'No acute findings.' });
+      expect(second.language).toBe('hi');
+      expect(second.translations).toEqual([
+        { language: 'en', sections: { findings: 'Clear lungs.', impressions: '' } }
+      ]);
+    });
+
+    it('maps nested and flat overlays, keeping boxes in image pixels', () => {
+      const [first, second] = record.modelOutputs;
+
+      expect(first.overlay).toEqual({
+        imageIndex: 1,
+        heatmapUrl: 'https://example.org/cases/12/heatmap-101.png',
+        boxes: [{ x: 612, y: 1104, width: 1226, height: 816, label: 'heart', score: 0.9 }]
+      });
+      expect(second.overlay).toEqual({
+        imageIndex: 0,
+        heatmapUrl: undefined,
+        boxes: [{ x: 420, y: 310, width: 560, height: 480, label: undefined, score: undefined }]
+      });
+    });
+
+    it('reads the ground truth with either impression spelling and its translations', () => {
+      expect(record.groundTruth).toEqual({
+        findings: 'Mild cardiomegaly. No pleural effusion.',
+        impressions: 'Cardiomegaly without acute disease.',
+        language: 'en',
+        translations: [
+          { language: 'hi', sections: { findings: 'हल्का कार्डियोमेगाली।', impressions: 'कोई तीव्र रोग नहीं।' } }
+        ]
+      });
+    });
+  });
+
+  describe('missing model outputs', () => {
+    const record = normalize(missingOutputsCase);
+
+    it('returns no model outputs, metrics or evaluations', () => {
+      expect(record.modelOutputs).toEqual([]);
+      expect(record.metrics).toEqual([]);
+      expect(record.evaluations).toEqual([]);
+    });
+
+    it('falls back to the primary image and an empty ground truth', () => {
+      expect(record.images).toEqual([{ url: 'https://example.org/cases/21/frontal.png', role: 'frontal' }]);
+      expect(record.groundTruth).toEqual({ findings: '', impressions: '', language: 'en', translations: [] });
+      expect(record.navigation).toBeUndefined();
+    });
+  });
+
+  describe('empty reports', () => {
+    const record = normalize(emptyReportsCase);
+
+    it('keeps responses with empty sections instead of dropping them', () => {
+      expect(record.modelOutputs.map(output => output.responseId)).toEqual(['201', '202', '203']);
+      record.modelOutputs.forEach(output => {
+        expect(output.sections).toEqual({ findings: '', impressions: '' });
+        expect(output.translations).toEqual([]);
+        expect(output.overlay).toBeUndefined();
+      });
+      expect(record.modelOutputs[1].response).toBe('');
+    });
+
+    it('gives an empty ground truth its sections', () => {
+      expect(record.groundTruth).toEqual({ findings: '', impressions: '', language: 'en', translations: [] });
+    });
+  });
+
+  describe('ground truth only', () => {
+    const record = normalize(groundTruthOnlyCase);
+
+    it('maps the ground truth in its own language', () => {
+      expect(record.modelOutputs).toEqual([]);
+      expect(record.groundTruth).toEqual({
+        findings: 'दाहिने निचले लोब में अपारदर्शिता।',
+        impressions: 'निमोनिया की संभावना।',
+        language: 'hi',
+        translations: [{ language: 'en', sections: { findings: '', impressions: 'Likely pneumonia.' } }]
+      });
+    });
+
+    it('falls back to the primary image when the image list is empty', () => {
+      expect(record.images).toEqual([{ url: 'https://example.org/cases/23/frontal.png', role: 'frontal' }]);
+    });
+  });
+});
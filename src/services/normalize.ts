@@ -0,0 +1,144 @@
+import { Record, Navigation, StudyImage, ImageRole, ModelOverlay, OverlayBox, ReportTranslation, LocalizedReport } from '@/types';
+import { parseReport } from '@/lib/report-parser';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import { CaseFullDetails } from '@/services/schemas';
+
+// Turns a case's full details into the Record the evaluation page works with.
+// Ground truth and model responses go through the same report parser, which
+// accepts JSON or plain text and the `impression` / `impressions` spellings.
+
+const IMAGE_ROLES: ImageRole[] = ['frontal', 'lateral', 'prior'];
+
+interface RawStudyImage {
+  id?: string;
+  url?: string;
+  image_url?: string;
+  role?: string;
+  label?: string;
+  study_date?: string;
+  studyDate?: string;
+}
+
+// Map the case's image list, falling back to the single primary image
+function mapStudyImages(images: RawStudyImage[] | undefined, primaryUrl: string): StudyImage[] {
+  const mapped: StudyImage[] = (images || [])
+    .filter((image) => image && (image.url || image.image_url))
+    .map((image) => ({
+      id: image.id,
+      url: image.url || image.image_url,
+      role: IMAGE_ROLES.includes(image.role as ImageRole) ? image.role as ImageRole : 'frontal',
+      label: image.label || undefined,
+      studyDate: image.study_date || image.studyDate || undefined
+    }));
+
+  if (mapped.length === 0 && primaryUrl) {
+    return [{ url: primaryUrl, role: 'frontal' }];
+  }
+
+  return mapped;
+}
+
+// Either form is in image pixels
+interface RawOverlayBox {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  // [x_min, y_min, x_max, y_max]
+  bbox?: number[];
+  label?: string;
+  score?: number;
+}
+
+interface RawModelOverlay {
+  image_index?: number;
+  heatmap_url?: string;
+  heatmapUrl?: string;
+  boxes?: RawOverlayBox[];
+}
+
+function mapOverlayBox(box: RawOverlayBox): OverlayBox | null {
+  if (Array.isArray(box.bbox) && box.bbox.length === 4) {
+    const [xMin, yMin, xMax, yMax] = box.bbox;
+    return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin, label: box.label, score: box.score };
+  }
+  if ([box.x, box.y, box.width, box.height].every((value) => typeof value === 'number')) {
+    return { x: box.x, y: box.y, width: box.width, height: box.height, label: box.label, score: box.score };
+  }
+  return null;
+}
+
+// Map a model response's optional heatmap / grounding boxes. The overlay can
+// come nested under `overlay` or as flat fields on the response.
+function mapModelOverlay(response: RawModelOverlay & { overlay?: RawModelOverlay }): ModelOverlay | undefined {
+  const raw = response.overlay || response;
+  const heatmapUrl = raw.heatmap_url || raw.heatmapUrl || undefined;
+  const boxes = (raw.boxes || []).map(mapOverlayBox).filter(Boolean);
+
+  if (!heatmapUrl && boxes.length === 0) {
+    return undefined;
+  }
+
+  return {
+    imageIndex: raw.image_index ?? 0,
+    heatmapUrl,
+    boxes
+  };
+}
+
+type RawTranslations =
+  | { language: string; text?: string; report?: unknown; response?: string }[]
+  | { [language: string]: unknown }
+  | null
+  | undefined;
+
+// Translations come either as a list of { language, text } or keyed by language code
+function mapTranslations(raw: RawTranslations): ReportTranslation[] {
+  if (!raw) return [];
+  const entries = Array.isArray(raw)
+    ? raw.map(item => [item.language, item.text ?? item.report ?? item.response] as const)
+    : Object.entries(raw);
+
+  return entries
+    .filter(([language, text]) => language && text)
+    .map(([language, text]) => ({ language, sections: parseReport(text) }));
+}
+
+// Ground truth sections plus its language and any translations
+function mapLocalizedReport(raw: unknown, language: string | undefined, translations: RawTranslations): LocalizedReport {
+  return {
+    ...parseReport(raw),
+    language: language || DEFAULT_LANGUAGE,
+    translations: mapTranslations(translations)
+  };
+}
+
+export function normalizeCase(data: CaseFullDetails): Record {
+  const language = data.language || undefined;
+
+  return {
+    id: data.id,
+    imageUrl: data.imageUrl,
+    images: mapStudyImages(data.images as RawStudyImage[] | undefined, data.imageUrl),
+    image_id: data.imageId || undefined,
+    status: data.status || undefined,
+    modelOutputs: data.modelOutputs.map(response => ({
+      responseId: response.responseId,
+      response: response.response,
+      sections: parseReport(response.response),
+      language: response.language || language || DEFAULT_LANGUAGE,
+      translations: mapTranslations(response.translations as RawTranslations),
+      evaluations: response.evaluations,
+      overlay: mapModelOverlay(response as RawModelOverlay & { overlay?: RawModelOverlay })
+    })),
+    metrics: data.metrics,
+    evaluations: data.evaluations,
+    groundTruth: mapLocalizedReport(
+      data.groundTruth,
+      (data.groundTruthLanguage as string | undefined) || language,
+      data.groundTruthTranslations as RawTranslations
+    ),
+    models: [],
+    navigation: (data.navigation as Navigation | null) || undefined
+  };
+}
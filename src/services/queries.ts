@@ -0,0 +1,224 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/query-client';
+import {
+  getAllCases,
+  getAllEvaluations,
+  getAllEvaluators,
+  getAllAnnotations,
+  getAllPreferences,
+  getAllReportSpans,
+  getAnnotations,
+  getCase,
+  getCaseAssignments,
+  getCasePreferences,
+  getCaseWithResponses,
+  getCurrentUser,
+  getErrorTags,
+  getEvaluatorCases,
+  getEvaluatorCasesWithDetails,
+  getExistingEvaluations,
+  getMetrics,
+  getModels,
+  getReportSpans
+} from '@/services';
+
+// Query hooks over the API client. Keys are hierarchical so a whole group
+// (e.g. every evaluation list) can be invalidated at once.
+export const queryKeys = {
+  currentUser: ['users', 'me'] as const,
+  evaluators: ['users', 'evaluators'] as const,
+  cases: ['cases'] as const,
+  case: (caseId: string) => ['cases', 'detail', caseId] as const,
+  caseResponses: (caseId: string) => ['cases', 'responses', caseId] as const,
+  caseAssignments: ['cases', 'assignments'] as const,
+  assignedCases: (evaluatorId: string) => ['cases', 'assigned', evaluatorId] as const,
+  evaluatorCases: (evaluatorId: string) => ['cases', 'evaluator', evaluatorId] as const,
+  records: (caseId: string) => ['records', caseId] as const,
+  metrics: ['metrics'] as const,
+  models: ['models'] as const,
+  errorTags: ['error-tags'] as const,
+  evaluations: ['evaluations'] as const,
+  caseEvaluations: (caseId: string) => ['evaluations', 'case', caseId] as const,
+  preferences: ['preferences'] as const,
+  casePreferences: (caseId: string, evaluatorId: string) => ['preferences', 'case', caseId, evaluatorId] as const,
+  annotations: (evaluatorId: string) => ['annotations', evaluatorId] as const,
+  caseAnnotations: (caseId: string, evaluatorId: string) => ['annotations', evaluatorId, 'case', caseId] as const,
+  reportSpans: (evaluatorId: string) => ['report-spans', evaluatorId] as const,
+  caseReportSpans: (caseId: string, evaluatorId: string) => ['report-spans', evaluatorId, 'case', caseId] as const
+};
+
+function useCurrentUser(enabled: boolean) {
+  return useQuery({ queryKey: queryKeys.currentUser, queryFn: ({ signal }) => getCurrentUser(signal), enabled });
+}
+
+function useEvaluators() {
+  return useQuery({ queryKey: queryKeys.evaluators, queryFn: ({ signal }) => getAllEvaluators(signal) });
+}
+
+function useCases() {
+  return useQuery({ queryKey: queryKeys.cases, queryFn: ({ signal }) => getAllCases(signal) });
+}
+
+// Cases looked up one by one, for ids missing from the full list
+function useCasesById(caseIds: string[]) {
+  return useQueries({
+    queries: caseIds.map(caseId => ({
+      queryKey: queryKeys.case(caseId),
+      queryFn: ({ signal }) => getCase(caseId, signal)
+    }))
+  });
+}
+
+function useCaseResponses(caseIds: string[]) {
+  return useQueries({
+    queries: caseIds.map(caseId => ({
+      queryKey: queryKeys.caseResponses(caseId),
+      queryFn: ({ signal }) => getCaseWithResponses(caseId, signal)
+    }))
+  });
+}
+
+function useCaseAssignments() {
+  return useQuery({ queryKey: queryKeys.caseAssignments, queryFn: ({ signal }) => getCaseAssignments(signal) });
+}
+
+// The signed-in evaluator's case list with their progress on each case
+function useAssignedCases(evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.assignedCases(evaluatorId || ''),
+    queryFn: ({ signal }) => getEvaluatorCasesWithDetails(evaluatorId as string, signal),
+    enabled: !!evaluatorId
+  });
+}
+
+function useEvaluatorCases(evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.evaluatorCases(evaluatorId || ''),
+    queryFn: ({ signal }) => getEvaluatorCases(evaluatorId as string, signal),
+    enabled: !!evaluatorId
+  });
+}
+
+function useMetrics() {
+  return useQuery({ queryKey: queryKeys.metrics, queryFn: ({ signal }) => getMetrics(signal) });
+}
+
+function useModels() {
+  return useQuery({ queryKey: queryKeys.models, queryFn: ({ signal }) => getModels(signal) });
+}
+
+function useErrorTags() {
+  return useQuery({ queryKey: queryKeys.errorTags, queryFn: ({ signal }) => getErrorTags(signal) });
+}
+
+function useEvaluations() {
+  return useQuery({ queryKey: queryKeys.evaluations, queryFn: ({ signal }) => getAllEvaluations(undefined, signal) });
+}
+
+function usePreferences() {
+  return useQuery({ queryKey: queryKeys.preferences, queryFn: ({ signal }) => getAllPreferences(undefined, signal) });
+}
+
+// The evaluator's earlier ranking / pairwise choices for a case
+function useCasePreferences(caseId: string, evaluatorId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.casePreferences(caseId, evaluatorId || ''),
+    queryFn: ({ signal }) => getCasePreferences(caseId, evaluatorId as string, signal),
+    enabled: enabled && !!caseId && !!evaluatorId
+  });
+}
+
+function useAnnotations(evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.annotations(evaluatorId || ''),
+    queryFn: ({ signal }) => getAllAnnotations(evaluatorId as string, signal),
+    enabled: !!evaluatorId
+  });
+}
+
+function useReportSpans(evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.reportSpans(evaluatorId || ''),
+    queryFn: ({ signal }) => getAllReportSpans(evaluatorId as string, signal),
+    enabled: !!evaluatorId
+  });
+}
+
+// The evaluator's own annotations and report spans for a case. They are
+// edited locally once loaded and the cache is updated on every save (see the
+// sync hooks), so they never need refetching while the session lasts.
+function useCaseAnnotations(caseId: string, evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.caseAnnotations(caseId, evaluatorId || ''),
+    queryFn: ({ signal }) => getAnnotations(caseId, evaluatorId as string, signal),
+    enabled: !!caseId && !!evaluatorId,
+    staleTime: Infinity
+  });
+}
+
+function useCaseReportSpans(caseId: string, evaluatorId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.caseReportSpans(caseId, evaluatorId || ''),
+    queryFn: ({ signal }) => getReportSpans(caseId, evaluatorId as string, signal),
+    enabled: !!caseId && !!evaluatorId,
+    staleTime: Infinity
+  });
+}
+
+// Which evaluator each case assignment belongs to, e.g. to tell the signed-in
+// evaluator's rows apart from the others' among a case's evaluations
+function fetchCaseAssignments() {
+  return queryClient.fetchQuery({
+    queryKey: queryKeys.caseAssignments,
+    queryFn: ({ signal }) => getCaseAssignments(signal)
+  });
+}
+
+// Scores saved for a case, always refetched as they change while it's open
+function fetchCaseEvaluations(caseId: string) {
+  return queryClient.fetchQuery({
+    queryKey: queryKeys.caseEvaluations(caseId),
+    queryFn: ({ signal }) => getExistingEvaluations(caseId, signal),
+    staleTime: 0
+  });
+}
+
+// After scores are saved: the evaluator's case list shows progress and the
+// supervisor views aggregate evaluations. The open case is only marked stale,
+// so it isn't reloaded under the evaluator but is fresh when they come back.
+function invalidateScores(caseId: string, evaluatorId: string) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.assignedCases(evaluatorId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.evaluatorCases(evaluatorId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.evaluations });
+  queryClient.invalidateQueries({ queryKey: queryKeys.records(caseId), refetchType: 'none' });
+}
+
+// After a ranking or pairwise comparison is submitted
+function invalidatePreferences() {
+  queryClient.invalidateQueries({ queryKey: queryKeys.preferences });
+}
+
+export {
+  useCurrentUser,
+  useEvaluators,
+  useCases,
+  useCasesById,
+  useCaseResponses,
+  useCaseAssignments,
+  useAssignedCases,
+  useEvaluatorCases,
+  useMetrics,
+  useModels,
+  useErrorTags,
+  useEvaluations,
+  usePreferences,
+  useCasePreferences,
+  useAnnotations,
+  useReportSpans,
+  useCaseAnnotations,
+  useCaseReportSpans,
+  fetchCaseAssignments,
+  fetchCaseEvaluations,
+  invalidateScores,
+  invalidatePreferences
+};
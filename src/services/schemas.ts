@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import { Annotation, APIEvaluation, CasePreference, ErrorTag, Metric, ReportSpan } from '@/types';
+
+// Schemas for the backend's responses. Every getter in services/index.ts
+// parses what it receives with one of these, so a changed or broken payload
+// fails at the API boundary with the endpoint and field named, instead of as
+// an undefined deep inside a page.
+
+export class ApiValidationError extends Error {
+  constructor(readonly endpoint: string, readonly issues: z.ZodIssue[]) {
+    super(`Unexpected response from ${endpoint}: ${describeIssues(issues)}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+// Shown in the error message; the full list is on `issues`
+const MAX_LISTED_ISSUES = 5;
+
+function describeIssues(issues: z.ZodIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `${issue.path.length ? issue.path.join('.') : 'response'}: ${issue.message}`);
+  if (issues.length > MAX_LISTED_ISSUES) {
+    listed.push(`and ${issues.length - MAX_LISTED_ISSUES} more`);
+  }
+  return listed.join('; ');
+}
+
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiValidationError(endpoint, result.error.issues);
+  }
+  return result.data;
+}
+
+// Ids are UUIDs, but some tables use integer keys
+const id = z.union([z.string(), z.number()]).transform(String);
+// Text the backend may leave out or send as null
+const optionalText = z.string().nullish().transform((value) => value ?? '');
+// List the backend may leave out or send as null
+const list = <T extends z.ZodTypeAny>(item: T) => z.array(item).nullish().transform((value) => value ?? []);
+
+export const userSchema = z.object({
+  id,
+  name: optionalText,
+  email: optionalText,
+  role: z.string(),
+});
+export type User = z.infer<typeof userSchema>;
+
+export const loginSchema = z.object({
+  token: z.string().min(1),
+  user: userSchema,
+});
+
+export const caseSchema = z.object({
+  id,
+  image_id: z.string(),
+  image_url: z.string().nullish(),
+  status: z.string().nullish(),
+});
+export type Case = z.infer<typeof caseSchema>;
+
+// Entry of an evaluator's case list, with their progress on it
+const assignedCaseSchema = z
+  .object({
+    id,
+    image_id: z.string(),
+    image_url: optionalText,
+    status: z.string().nullish().transform((value) => value || 'pending'),
+    completed_evaluations: z.number().nullish().transform((value) => value ?? 0),
+    total_evaluations: z.number().nullish().transform((value) => value ?? 0),
+    last_updated: z.string().nullish(),
+    updated_at: z.string().nullish(),
+    created_at: z.string().nullish(),
+  })
+  .transform(({ updated_at, created_at, last_updated, ...item }) => ({
+    ...item,
+    last_updated: last_updated || updated_at || created_at || '',
+  }));
+export type AssignedCase = z.infer<typeof assignedCaseSchema>;
+
+const count = z.number().nullish().transform((value) => value ?? 0);
+
+export const assignedCasesSchema = z.object({
+  cases: z.array(assignedCaseSchema),
+  total_cases: count,
+  pending_cases: count,
+  in_progress_cases: count,
+  completed_cases: count,
+});
+export type AssignedCases = z.infer<typeof assignedCasesSchema>;
+
+export const caseAssignmentSchema = z.object({
+  id,
+  case: id,
+  evaluator: id,
+});
+export type CaseAssignment = z.infer<typeof caseAssignmentSchema>;
+
+export const modelSchema = z.object({
+  id,
+  name: z.string(),
+});
+export type Model = z.infer<typeof modelSchema>;
+
+const modelResponseSchema = z.object({
+  id,
+  model: id,
+  response: optionalText,
+});
+export type ModelResponse = z.infer<typeof modelResponseSchema>;
+
+export const caseWithResponsesSchema = z.object({
+  model_responses: list(modelResponseSchema),
+});
+export type CaseWithResponses = z.infer<typeof caseWithResponsesSchema>;
+
+const reportSection = z.enum(['technique', 'comparison', 'findings', 'impressions']);
+
+export const metricSchema = z
+  .object({
+    id,
+    name: z.string(),
+    description: z.string().nullish(),
+    section: reportSection.nullish(),
+    per_language: z.boolean().nullish(),
+  })
+  .transform((metric): Metric => ({
+    id: metric.id,
+    name: metric.name,
+    description: metric.description || undefined,
+    section: metric.section ?? null,
+    perLanguage: metric.per_language || undefined,
+  }));
+
+export const evaluationSchema = z.object({
+  id,
+  case_assignment: id,
+  model_response: id,
+  metric: id,
+  score: z.number(),
+  // Blinded position ("MODEL n") the response was shown in when it was scored
+  slot: z.number().nullish(),
+  // Free-text comment and error tag ids for the response, repeated on each of its rows
+  comment: z.string().nullish(),
+  error_tags: z.array(z.string()).nullish(),
+  // Set for metrics scored per language variant
+  language: z.string().nullish(),
+  created_at: z.string(),
+});
+export type EvaluationData = z.infer<typeof evaluationSchema>;
+
+// Score as embedded in a case's full details
+const caseEvaluationSchema = z
+  .object({
+    responseId: id,
+    metricId: id,
+    metricName: z.string().nullish(),
+    score: z.number().nullish(),
+  })
+  .transform((evaluation): APIEvaluation => ({
+    responseId: evaluation.responseId,
+    metricId: evaluation.metricId,
+    metricName: evaluation.metricName || undefined,
+    score: evaluation.score || 0,
+  }));
+
+// Fields not listed (images, overlays, translations, ground truth) are kept
+// as they are and mapped by services/normalize.ts
+const caseModelOutputSchema = z
+  .object({
+    responseId: id,
+    response: optionalText,
+    language: z.string().nullish(),
+    evaluations: list(caseEvaluationSchema),
+  })
+  .passthrough();
+
+export const caseFullDetailsSchema = z
+  .object({
+    id,
+    imageUrl: z.string().min(1),
+    imageId: z.string().nullish(),
+    status: z.string().nullish(),
+    language: z.string().nullish(),
+    modelOutputs: list(caseModelOutputSchema),
+    metrics: list(metricSchema),
+    evaluations: list(caseEvaluationSchema),
+  })
+  .passthrough();
+export type CaseFullDetails = z.infer<typeof caseFullDetailsSchema>;
+
+const point = z.object({ x: z.number(), y: z.number() });
+
+// Annotation as stored for a case
+const annotationFields = z.object({
+  id,
+  image_index: z.number().nullish(),
+  type: z.enum(['box', 'polygon', 'arrow', 'ruler', 'text']),
+  points: list(point),
+  text: z.string().nullish(),
+  response_id: id.nullish(),
+  metric_id: id.nullish(),
+  created_at: z.string(),
+});
+
+const toAnnotation = (data: z.infer<typeof annotationFields>): Annotation => ({
+  id: data.id,
+  imageIndex: data.image_index ?? 0,
+  type: data.type,
+  points: data.points.map((item) => ({ x: item.x, y: item.y })),
+  text: data.text || undefined,
+  responseId: data.response_id || null,
+  metricId: data.metric_id || null,
+  createdAt: data.created_at,
+});
+
+export const annotationSchema = annotationFields.transform(toAnnotation);
+
+// The supervisor's list of all annotations also names each one's case and
+// evaluator; a row without them is rejected rather than left unattributed
+export const evaluatorAnnotationSchema = annotationFields
+  .extend({ case: id, evaluator: id })
+  .transform((data): Annotation & { caseId: string; evaluatorId: string } => ({
+    ...toAnnotation(data),
+    caseId: data.case,
+    evaluatorId: data.evaluator,
+  }));
+
+// Highlighted report span, for a case or, with `case` / `evaluator`, in the
+// supervisor's list as for annotations
+const reportSpanFields = z.object({
+  id,
+  response_id: id,
+  section: reportSection.nullish(),
+  start: z.number(),
+  end: z.number(),
+  text: z.string().nullish(),
+  error_tag: z.string(),
+  severity: z.enum(['minor', 'major', 'critical']).nullish(),
+  ground_truth_sentence: z.number().nullish(),
+  created_at: z.string(),
+});
+
+const toReportSpan = (data: z.infer<typeof reportSpanFields>): ReportSpan => ({
+  id: data.id,
+  responseId: data.response_id,
+  section: data.section || 'findings',
+  start: data.start,
+  end: data.end,
+  text: data.text || '',
+  errorTag: data.error_tag,
+  severity: data.severity || 'minor',
+  groundTruthSentence: data.ground_truth_sentence ?? null,
+  createdAt: data.created_at,
+});
+
+export const reportSpanSchema = reportSpanFields.transform(toReportSpan);
+
+export const evaluatorReportSpanSchema = reportSpanFields
+  .extend({ case: id, evaluator: id })
+  .transform((data): ReportSpan & { caseId: string; evaluatorId: string } => ({
+    ...toReportSpan(data),
+    caseId: data.case,
+    evaluatorId: data.evaluator,
+  }));
+
+export const preferenceSchema = z
+  .object({
+    case: id,
+    evaluator: id,
+    mode: z.enum(['ranking', 'pairwise']),
+    ranking: list(id),
+    comparisons: list(
+      z.object({
+        left_response_id: id,
+        right_response_id: id,
+        outcome: z.enum(['left', 'right', 'tie']),
+      })
+    ),
+    slots: z.record(z.number()).nullish(),
+    submitted_at: z.string().nullish(),
+  })
+  .transform((data): CasePreference => ({
+    caseId: data.case,
+    evaluatorId: data.evaluator,
+    mode: data.mode,
+    ranking: data.ranking,
+    comparisons: data.comparisons.map((comparison) => ({
+      leftResponseId: comparison.left_response_id,
+      rightResponseId: comparison.right_response_id,
+      outcome: comparison.outcome,
+    })),
+    slots: data.slots || {},
+    submittedAt: data.submitted_at || undefined,
+  }));
+
+export const errorTagSchema = z
+  .object({
+    id,
+    label: z.string().nullish(),
+    name: z.string().nullish(),
+    description: z.string().nullish(),
+  })
+  .transform((tag): ErrorTag => ({
+    id: tag.id,
+    label: tag.label || tag.name || tag.id,
+    description: tag.description || undefined,
+  }));
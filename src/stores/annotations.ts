@@ -0,0 +1,7 @@
+import { Annotation } from '@/types'
+import { createCaseItemStore } from '@/stores/case-items'
+
+// The evaluator's image annotations per case, see useAnnotationSync
+const useAnnotationStore = createCaseItemStore<Annotation>()
+
+export default useAnnotationStore
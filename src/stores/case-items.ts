@@ -0,0 +1,65 @@
+import { create, StoreApi, UseBoundStore } from 'zustand'
+
+export type CaseSyncStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+// Per-case lists the evaluator edits locally and useCaseItemSync saves back,
+// e.g. image annotations and highlighted report spans
+export type CaseItemStore<T extends { id: string }> = {
+  items: {
+    [caseId: string]: T[]
+  }
+  // Bumped on every local edit so the sync hook knows there is something to save
+  revision: {
+    [caseId: string]: number
+  }
+  status: {
+    [caseId: string]: CaseSyncStatus
+  }
+  initAtId: (caseId: string, items: T[]) => void
+  addItem: (caseId: string, item: T) => void
+  updateItem: (caseId: string, id: string, changes: Partial<T>) => void
+  removeItem: (caseId: string, id: string) => void
+  setStatus: (caseId: string, status: CaseSyncStatus) => void
+}
+
+export type UseCaseItemStore<T extends { id: string }> = UseBoundStore<StoreApi<CaseItemStore<T>>>
+
+export function createCaseItemStore<T extends { id: string }>(): UseCaseItemStore<T> {
+  return create<CaseItemStore<T>>()((set) => {
+    const edit = (caseId: string, update: (items: T[]) => T[]) =>
+      set((state) => ({
+        items: {
+          ...state.items,
+          [caseId]: update(state.items[caseId] || [])
+        },
+        revision: {
+          ...state.revision,
+          [caseId]: (state.revision[caseId] || 0) + 1
+        }
+      }))
+
+    return {
+      items: {},
+      revision: {},
+      status: {},
+      initAtId: (caseId, items) =>
+        set((state) => ({
+          items: { ...state.items, [caseId]: items },
+          revision: { ...state.revision, [caseId]: 0 },
+          status: { ...state.status, [caseId]: 'idle' }
+        })),
+      addItem: (caseId, item) =>
+        edit(caseId, (items) => [...items, item]),
+      updateItem: (caseId, id, changes) =>
+        edit(caseId, (items) =>
+          items.map((item) => (item.id === id ? { ...item, ...changes } : item))
+        ),
+      removeItem: (caseId, id) =>
+        edit(caseId, (items) => items.filter((item) => item.id !== id)),
+      setStatus: (caseId, status) =>
+        set((state) => ({
+          status: { ...state.status, [caseId]: status }
+        }))
+    }
+  })
+}
@@ -15,6 +15,14 @@ type EvaluationStore = {
       value: number | null
     }
   ) => void
+  setFeedback: (
+    idx: string,
+    responseId: string,
+    feedback: {
+      comment?: string
+      errorTags?: string[]
+    }
+  ) => void
   init: (payload: LocalEvaluation) => void
   initAtId: (idx: string, payload: Evaluation[]) => void
   doneForId: {
@@ -24,56 +32,52 @@ type EvaluationStore = {
   resetDoneStatus: () => void
 }
 
-// Create store without persistence - no localStorage
+// The store itself is in memory only; drafts are mirrored to IndexedDB by
+// useEvaluationDraft and unsent scores live in the outbox (lib/outbox)
 const useEvalutationStore = create<EvaluationStore>()((set) => ({
   evaluation: {},
   setEvaluation: (idx, payload) =>
     set((state) => {
-      if (!state.evaluation[idx]) {
-        // Initialize evaluation data for this ID if it doesn't exist
-        state.evaluation[idx] = Array.from({ length: 3 }, (_, index) => ({
-          responseId: `model-${index + 1}`,
-          metrics: []
-        }));
-      }
-
-      const newEvaluation = { ...state.evaluation };
-      const modelIndex = newEvaluation[idx].findIndex(
-        (model) => model.responseId === payload.responseId
-      );
+      // Models are added as they are scored; initAtId seeds the full list for a case
+      const models = state.evaluation[idx] || [];
+      const hasModel = models.some((model) => model.responseId === payload.responseId);
+      const modelsWithPayload = hasModel
+        ? models
+        : [...models, { responseId: payload.responseId, metrics: [] }];
 
-      if (modelIndex === -1) {
-        // Add the model if it doesn't exist
-        newEvaluation[idx].push({
-          responseId: payload.responseId,
-          metrics: [{
-            id: payload.metricId,
-            name: '',
-            value: payload.value
-          }]
-        });
-        return {
-          evaluation: newEvaluation,
-        };
-      }
-
-      const metricIndex = newEvaluation[idx][modelIndex].metrics.findIndex(
-        (metric) => metric.id === payload.metricId
-      );
+      return {
+        evaluation: {
+          ...state.evaluation,
+          [idx]: modelsWithPayload.map((model) => {
+            if (model.responseId !== payload.responseId) return model;
 
-      if (metricIndex === -1) {
-        // Add the metric if it doesn't exist
-        newEvaluation[idx][modelIndex].metrics.push({
-          id: payload.metricId,
-          name: '',
-          value: payload.value
-        });
-      } else {
-        newEvaluation[idx][modelIndex].metrics[metricIndex].value = payload.value;
-      }
+            const hasMetric = model.metrics.some((metric) => metric.id === payload.metricId);
+            return {
+              ...model,
+              metrics: hasMetric
+                ? model.metrics.map((metric) =>
+                    metric.id === payload.metricId ? { ...metric, value: payload.value } : metric
+                  )
+                : [...model.metrics, { id: payload.metricId, name: '', value: payload.value }]
+            };
+          })
+        }
+      };
+    }),
+  setFeedback: (idx, responseId, feedback) =>
+    set((state) => {
+      const models = state.evaluation[idx] || [];
+      const hasModel = models.some((model) => model.responseId === responseId);
 
       return {
-        evaluation: newEvaluation,
+        evaluation: {
+          ...state.evaluation,
+          [idx]: hasModel
+            ? models.map((model) =>
+                model.responseId === responseId ? { ...model, ...feedback } : model
+              )
+            : [...models, { responseId, metrics: [], ...feedback }]
+        }
       };
     }),
   init: (initData) =>
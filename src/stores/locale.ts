@@ -0,0 +1,35 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { DEFAULT_LOCALE, Locale } from '@/lib/i18n'
+
+type LocaleStore = {
+  // Chosen UI language per user id
+  byUser: {
+    [userId: string]: Locale
+  }
+  // Last choice on this device, used before anyone has signed in
+  lastLocale: Locale
+  setLocale: (userId: string | null, locale: Locale) => void
+}
+
+const useLocaleStore = create<LocaleStore>()(
+  persist(
+    (set) => ({
+      byUser: {},
+      lastLocale: DEFAULT_LOCALE,
+      setLocale: (userId, locale) =>
+        set((state) => ({
+          byUser: userId ? { ...state.byUser, [userId]: locale } : state.byUser,
+          lastLocale: locale
+        }))
+    }),
+    { name: 'ui-locale' }
+  )
+)
+
+// Language for a user, or the device's last choice before anyone signs in
+export function userLocale(state: LocaleStore, userId: string | null): Locale {
+  return (userId && state.byUser[userId]) || state.lastLocale
+}
+
+export default useLocaleStore
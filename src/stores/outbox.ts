@@ -0,0 +1,40 @@
+import { create } from 'zustand'
+
+// saved locally = queued in the outbox (possibly retrying), synced = accepted by
+// the server, failed = rejected by the server and not retried automatically
+export type CellSyncStatus = 'local' | 'synced' | 'failed'
+
+export interface CellSyncState {
+  status: CellSyncStatus
+  attempts: number
+  error?: string
+}
+
+type OutboxStore = {
+  // Keyed by outboxKey(), one entry per evaluator/case/response/metric score
+  cells: {
+    [key: string]: CellSyncState
+  }
+  setCell: (key: string, cell: CellSyncState) => void
+  // Removes one evaluator's cells
+  clearCells: (evaluatorId: string) => void
+}
+
+const useOutboxStore = create<OutboxStore>()((set) => ({
+  cells: {},
+  setCell: (key, cell) =>
+    set((state) => ({
+      cells: {
+        ...state.cells,
+        [key]: cell
+      }
+    })),
+  clearCells: (evaluatorId) =>
+    set((state) => ({
+      cells: Object.fromEntries(
+        Object.entries(state.cells).filter(([key]) => !key.startsWith(`${evaluatorId}:`))
+      )
+    }))
+}))
+
+export default useOutboxStore
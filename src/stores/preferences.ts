@@ -0,0 +1,37 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { EvaluationMode } from '@/types'
+
+type PreferencesStore = {
+  // Open the next incomplete case after a successful submit
+  autoAdvance: boolean
+  setAutoAdvance: (autoAdvance: boolean) => void
+  // Score with the keyboard in the evaluation grid instead of the dropdowns
+  keyboardScoring: boolean
+  setKeyboardScoring: (keyboardScoring: boolean) => void
+  // Score each metric, rank all responses, or compare them two at a time
+  evaluationMode: EvaluationMode
+  setEvaluationMode: (evaluationMode: EvaluationMode) => void
+  // Align model reports against the ground truth instead of showing plain text
+  showReportDiff: boolean
+  setShowReportDiff: (showReportDiff: boolean) => void
+}
+
+// Unlike evaluation data, UI preferences are kept across reloads
+const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      autoAdvance: false,
+      setAutoAdvance: (autoAdvance) => set({ autoAdvance }),
+      keyboardScoring: false,
+      setKeyboardScoring: (keyboardScoring) => set({ keyboardScoring }),
+      evaluationMode: 'likert',
+      setEvaluationMode: (evaluationMode) => set({ evaluationMode }),
+      showReportDiff: false,
+      setShowReportDiff: (showReportDiff) => set({ showReportDiff })
+    }),
+    { name: 'evaluator-preferences' }
+  )
+)
+
+export default usePreferencesStore
@@ -0,0 +1,7 @@
+import { ReportSpan } from '@/types'
+import { createCaseItemStore } from '@/stores/case-items'
+
+// The evaluator's highlighted report spans per case, see useReportSpanSync
+const useReportSpanStore = createCaseItemStore<ReportSpan>()
+
+export default useReportSpanStore
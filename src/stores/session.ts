@@ -0,0 +1,30 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { SessionUser } from '@/types'
+
+type SessionStore = {
+  // API token sent with every request, see services/index.ts
+  token: string | null
+  user: SessionUser | null
+  // Set when the backend rejected the token, so the login page can say why
+  expired: boolean
+  setSession: (token: string, user: SessionUser) => void
+  setUser: (user: SessionUser) => void
+  clearSession: (expired?: boolean) => void
+}
+
+const useSessionStore = create<SessionStore>()(
+  persist(
+    (set) => ({
+      token: null,
+      user: null,
+      expired: false,
+      setSession: (token, user) => set({ token, user, expired: false }),
+      setUser: (user) => set({ user }),
+      clearSession: (expired = false) => set({ token: null, user: null, expired })
+    }),
+    { name: 'session' }
+  )
+)
+
+export default useSessionStore
@@ -0,0 +1,46 @@
+import { DisplaySettings } from '@/lib/imaging'
+import { Viewport } from '@/lib/viewport'
+import { create } from 'zustand'
+
+type ViewerStore = {
+  display: {
+    [key: string]: DisplaySettings
+  }
+  viewport: {
+    [key: string]: Viewport
+  }
+  setDisplay: (key: string, settings: DisplaySettings) => void
+  setViewport: (key: string, viewport: Viewport) => void
+  resetView: (displayKey: string, viewportKey: string) => void
+}
+
+// Kept in memory so window/level and pan/zoom survive remounts while a case is open.
+// Keys are built from the case id and image index, see ImageViewer
+const useViewerStore = create<ViewerStore>()((set) => ({
+  display: {},
+  viewport: {},
+  setDisplay: (key, settings) =>
+    set((state) => ({
+      display: {
+        ...state.display,
+        [key]: settings
+      }
+    })),
+  setViewport: (key, viewport) =>
+    set((state) => ({
+      viewport: {
+        ...state.viewport,
+        [key]: viewport
+      }
+    })),
+  resetView: (displayKey, viewportKey) =>
+    set((state) => {
+      const display = { ...state.display }
+      const viewport = { ...state.viewport }
+      delete display[displayKey]
+      delete viewport[viewportKey]
+      return { display, viewport }
+    })
+}))
+
+export default useViewerStore
@@ -9,6 +9,21 @@ export interface Metric {
   id: string;
   name: string;
   description?: string;
+  // Report section the metric is about, if it doesn't apply to the whole report
+  section?: ReportSectionName | null;
+  // Scored separately for each language the reports are available in
+  perLanguage?: boolean;
+}
+
+export type ReportSectionName = 'technique' | 'comparison' | 'findings' | 'impressions';
+
+// A report split into sections by parseReport; ground truth and model
+// responses share this shape
+export interface ParsedReport {
+  technique?: string;
+  comparison?: string;
+  findings: string;
+  impressions: string;
 }
 
 export interface EvaluationMetric {
@@ -21,6 +36,24 @@ export interface EvaluationMetric {
 export interface Evaluation {
   responseId: string;
   metrics: EvaluationMetric[];
+  // Why the response got its scores, see ResponseFeedback
+  comment?: string;
+  errorTags?: string[];
+}
+
+// Category of mistake an evaluator can flag on a model response
+export interface ErrorTag {
+  id: string;
+  label: string;
+  // Catalog key of a built-in tag's label, used instead of label
+  labelKey?: string;
+  description?: string;
+}
+
+export interface ResponseFeedback {
+  responseId: string;
+  comment: string;
+  errorTags: string[];
 }
 
 export interface APIEvaluation {
@@ -30,22 +63,144 @@ export interface APIEvaluation {
   score: number;
 }
 
+export type ImageRole = 'frontal' | 'lateral' | 'prior';
+
+export interface StudyImage {
+  id?: string;
+  url: string;
+  role: ImageRole;
+  label?: string;
+  studyDate?: string;
+}
+
+// Bounding box in pixels of the study image it belongs to, as models report them
+export interface OverlayBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+  score?: number;
+}
+
+// Attention / grounding output of a model, drawn over the study image
+export interface ModelOverlay {
+  imageIndex: number;
+  heatmapUrl?: string;
+  boxes: OverlayBox[];
+}
+
+// Another language version of a report, e.g. the English translation of a
+// Hindi report
+export interface ReportTranslation {
+  language: string;
+  sections: ParsedReport;
+}
+
+export interface LocalizedReport extends ParsedReport {
+  // Language code (e.g. "hi") of the report as written
+  language: string;
+  translations: ReportTranslation[];
+}
+
+export interface ModelOutput {
+  responseId: string;
+  // Raw text as returned by the model
+  response: string;
+  sections: ParsedReport;
+  language: string;
+  translations: ReportTranslation[];
+  evaluations?: APIEvaluation[];
+  overlay?: ModelOverlay;
+}
+
 export interface Record {
   id: string;
+  // Primary (frontal) image, kept for callers that only need one image
   imageUrl: string;
+  images: StudyImage[];
   image_id?: string;
   status?: string;
-  modelOutputs: Array<{
-    responseId: string;
-    response: string;
-    evaluations?: APIEvaluation[];
-  }>;
+  modelOutputs: ModelOutput[];
   metrics: Metric[];
   evaluations: APIEvaluation[];
-  groundTruth: {
-    findings: string;
-    impressions: string;
-  };
+  groundTruth: LocalizedReport;
   models: any[];
   navigation?: Navigation;
 }
+
+export type AnnotationType = 'box' | 'polygon' | 'arrow' | 'ruler' | 'text';
+
+// Image pixel coordinates
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface Annotation {
+  id: string;
+  imageIndex: number;
+  type: AnnotationType;
+  points: AnnotationPoint[];
+  text?: string;
+  responseId: string | null;
+  metricId: string | null;
+  createdAt: string;
+}
+
+export type SpanSeverity = 'minor' | 'major' | 'critical';
+
+// Character range of a model response marked as wrong by the evaluator
+export interface ReportSpan {
+  id: string;
+  responseId: string;
+  // Offsets are into this section's text
+  section: ReportSectionName;
+  start: number;
+  end: number;
+  // Copy of the marked text, so the dataset stays readable if the response changes
+  text: string;
+  errorTag: string;
+  severity: SpanSeverity;
+  // Index into the ground truth sentences, see groundTruthSentences
+  groundTruthSentence: number | null;
+  createdAt: string;
+}
+
+// How an evaluator judges a case: absolute scores per metric, or a comparison
+export type EvaluationMode = 'likert' | 'ranking' | 'pairwise';
+
+export type PairwiseOutcome = 'left' | 'right' | 'tie';
+
+export interface PairwiseComparison {
+  leftResponseId: string;
+  rightResponseId: string;
+  outcome: PairwiseOutcome;
+}
+
+// Comparative judgement of a case's model responses
+export interface CasePreference {
+  caseId: string;
+  evaluatorId: string;
+  mode: Exclude<EvaluationMode, 'likert'>;
+  // Response ids, best first (ranking mode)
+  ranking: string[];
+  // One entry per compared pair (pairwise mode)
+  comparisons: PairwiseComparison[];
+  // Blinded slot each response was shown in
+  slots: { [responseId: string]: number };
+  submittedAt?: string;
+}
+
+// Evaluators are the doctors scoring cases; admins can do everything supervisors can
+export type UserRole = 'evaluator' | 'supervisor' | 'admin';
+
+// The signed-in user, as returned by the auth endpoints
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  // null when the backend sent a role this app doesn't know; such a user
+  // can't open any page
+  role: UserRole | null;
+}
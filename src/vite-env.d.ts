@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  // "true" serves fixture metrics instead of the backend's, see lib/demo.ts
+  readonly VITE_DEMO_MODE?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
+
+// The package's release ships without its type declarations
+declare module 'jpeg-lossless-decoder-js' {
+  export class Decoder {
+    decode(buffer: ArrayBufferLike, offset?: number, length?: number, numBytes?: number): Uint8Array | Uint16Array
+  }
+}